@@ -1,5 +1,14 @@
-export { detectBlackBoundariesWithMagick } from './analyzer/blackBoundaries.js';
-export { getFrameMeansFromBuffers, splitPngFrames, extractFramesToBuffers } from './analyzer/frames.js';
-export { detectSilencePeriods } from './analyzer/silence.js';
-export { detectAudioLevels } from './analyzer/audioLevels.js';
-export { getAudioLevelAt, isFrameSilent } from './analyzer/helpers.js'; 
\ No newline at end of file
+export { detectBlackBoundariesWithMagick, detectProgrammeBreaks } from './analyzer/blackBoundaries.js';
+export { refineCut } from './analyzer/refine.js';
+export { extractFrameMeans, computeFrameMean, FrameMeanAccumulator } from './analyzer/frames.js';
+export { analyzeAudioWindow } from './analyzer/audioWindow.js';
+export { parseSilencePeriods } from './analyzer/silence.js';
+export { parseAudioLevels } from './analyzer/audioLevels.js';
+export { getAudioLevelAt, isFrameSilent } from './analyzer/helpers.js';
+export { createDetectors, DETECTOR_NAMES } from './analyzer/detectors/registry.js';
+export { fuseEvidence, findBoundaryCandidates } from './analyzer/detectors/combiner.js';
+export { BlackReferenceDetector } from './analyzer/detectors/blackReference.js';
+export { SilenceDetector } from './analyzer/detectors/silence.js';
+export type { AnalysisTimeline, AnalysisWindow, BoundaryDetector, BoundaryEdge, DetectionContext, EvidenceTrack } from './analyzer/detectors/types.js';
+export { CHANNEL_PROFILES, DEFAULT_PROFILE, resolveChannelProfile } from './analyzer/profiles.js';
+export type { ChannelProfile, LogoMask } from './analyzer/profiles.js';
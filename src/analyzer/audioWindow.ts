@@ -0,0 +1,67 @@
+import { Logger } from '../logger.js';
+import { spawn } from 'child_process';
+import { parseSilencePeriods } from './silence.js';
+import { parseAudioLevels } from './audioLevels.js';
+
+export interface AudioWindowResult {
+    /** Silence periods in absolute milliseconds. */
+    silencePeriods: { start: number, end: number }[];
+    /** RMS levels keyed by absolute seconds. */
+    audioLevels: { ts: number, meanDb: number }[];
+}
+
+export interface SilenceParams {
+    /** Noise floor in dB. */
+    threshold: number;
+    /** Minimum silence duration in seconds. */
+    minDuration: number;
+}
+
+/**
+ * Decode only `[ss, ss + windowSeconds)` of one audio stream and run silencedetect and
+ * astats over it in a single ffmpeg pass. Timestamps are mapped back to absolute
+ * positions in the recording.
+ */
+export async function analyzeAudioWindow(
+    filePath: string,
+    audioStream: string,
+    ss: number,
+    windowSeconds: number,
+    silence: SilenceParams,
+    label: string,
+    logger: Logger
+): Promise<AudioWindowResult> {
+    const args = [
+        '-hide_banner',
+        '-ss', ss.toString(),
+        '-t', windowSeconds.toString(),
+        '-i', filePath,
+        '-vn',
+        '-map', audioStream,
+        '-af', [
+            `silencedetect=noise=${silence.threshold}dB:d=${silence.minDuration}`,
+            'astats=metadata=1:reset=1',
+            'ametadata=mode=print:key=lavfi.astats.Overall.RMS_level',
+        ].join(','),
+        '-f', 'null',
+        '-'
+    ];
+    logger.debug(`[${label}] Audio window ${ss.toFixed(2)}s +${windowSeconds}s: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    return new Promise((resolve, reject) => {
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+        proc.on('close', (code) => {
+            if (code !== 0) {
+                logger.error(`[${label}] FFmpeg silencedetect/astats failed`);
+                return reject(new Error('ffmpeg silencedetect/astats failed'));
+            }
+            // A silence still open when the window ends (e.g. after the programme) runs to its end
+            const silencePeriods = parseSilencePeriods(stderr, Math.round(ss * 1000), Math.round((ss + windowSeconds) * 1000));
+            const audioLevels = parseAudioLevels(stderr, ss);
+            logger.info(`[${label}] Detected ${silencePeriods.length} silence periods and ${audioLevels.length} audio level frames.`);
+            resolve({ silencePeriods, audioLevels });
+        });
+        proc.on('error', reject);
+    });
+}
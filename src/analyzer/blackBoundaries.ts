@@ -1,365 +1,272 @@
 import { Logger } from '../logger.js';
-import { ProgramOptions } from '../types.js';
-import { detectSilencePeriods } from './silence.js';
-import { detectAudioLevels } from './audioLevels.js';
-import { extractFramesToBuffers, getFrameMeansFromBuffers } from './frames.js';
-import { getAudioLevelAt, isFrameSilent } from './helpers.js';
+import { ProgramOptions, BoundaryCandidate, BoundaryDetectionResult } from '../types.js';
+import { probeMedia } from '../mediaProbe.js';
+import { createDetectors } from './detectors/registry.js';
+import { constrainToCatalogue, fuseEvidence, findBoundaryCandidates, rankCandidates, type CombineParams } from './detectors/combiner.js';
+import { FrameHashDetector } from './detectors/frameHash.js';
+import { loadCatalogue } from './catalogue.js';
+import type { AnalysisTimeline, AnalysisWindow, DetectionContext, EvidenceTrack } from './detectors/types.js';
+import type { ScheduleBoundaries } from './schedule.js';
+import { refineCut } from './refine.js';
 import * as path from 'path';
 import * as os from 'os';
 import { promises as fs } from 'fs';
-import { spawn } from 'child_process';
 import pLimit from 'p-limit';
 
+/**
+ * Secondary-pass cuts carry less weight than black runs; their confidence is scaled by this.
+ * They are also always flagged for review.
+ */
+const SECONDARY_CONFIDENCE = 0.8;
+
+/**
+ * Find the programme start and end by running every weighted detector of the channel
+ * profile over the start and end windows and fusing their evidence on a shared timeline.
+ *
+ * @param expected - Boundaries expected from the EPG; when given, the windows are centred on them
+ *                   instead of anchored to the file edges.
+ */
 export async function detectBlackBoundariesWithMagick(
     filePath: string,
     options: ProgramOptions,
-    logger: Logger
-): Promise<{ programStart: number | null, programEnd: number | null, notes: string[] }> {
-    const trimTail = (s: string, maxChars: number) => {
-        if (s.length <= maxChars) return s;
-        const dropped = s.length - maxChars;
-        return `… (trimmed ${dropped} chars)\n` + s.slice(-maxChars);
-    };
-
-    const MASK_X = 13, MASK_Y = 60, MASK_W = 400, MASK_H = 54;
-    const SIMILARITY_THRESHOLD = 0.92;
-    const N_CONSECUTIVE = 2;
-    const FRAME_RATE = 8;
+    logger: Logger,
+    expected: ScheduleBoundaries | null = null
+): Promise<BoundaryDetectionResult> {
+    const profile = options.analysisProfile;
+    const FRAME_RATE = profile.frameRate;
     const notes: string[] = [];
-    const referenceImage = options.reference || 'data/black_logo.png';
     const keepDebug = options.keepDebug;
-    const startWindow = typeof options.startWindow === 'number' ? options.startWindow : 90;
-    const endWindow = typeof options.endWindow === 'number' ? options.endWindow : 210;
+    logger.debug(`[PROFILE] Using channel profile "${profile.name}": ${JSON.stringify(profile)}`);
 
-    const maskArgs =
-        `[0:v]drawbox=x=${MASK_X}:y=${MASK_Y}:w=${MASK_W}:h=${MASK_H}:color=black@1:t=fill,extractplanes=y[vid]; ` +
-        `[1:v]drawbox=x=${MASK_X}:y=${MASK_Y}:w=${MASK_W}:h=${MASK_H}:color=black@1:t=fill,format=gray,extractplanes=y[ref]; ` +
-        `[vid][ref]blend=all_mode=difference,fps=${FRAME_RATE}[diff]`;
+    const detectors = createDetectors(profile.detectorWeights);
+    const fallbackDetectors = createDetectors(profile.fallbackWeights ?? {});
+    // A non-empty catalogue always constrains the cuts, weighted or not
+    const catalogue = await loadCatalogue(options.catalogue);
+    const catalogueDetector = catalogue.entries.length > 0 ? new FrameHashDetector() : null;
+    const probe = await probeMedia(filePath, logger);
+    const duration = probe.duration;
+    const limit = pLimit(Math.max(1, options.parallelism || 2));
 
-    const getTotalDuration = async (filePath: string): Promise<number> => {
-        const args = ['-i', filePath, '-f', 'null', '-'];
-        const output = await new Promise<string>((resolve, reject) => {
-            let stderr = '';
-            const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
-            proc.stderr.on('data', (data) => { stderr += data.toString(); });
-            proc.on('close', (code, signal) => {
-                if (code === 0) return resolve(stderr);
-                const cmd = `ffmpeg ${args.map(a => `'${a}'`).join(' ')}`;
-                const details = [
-                    'Duration probe failed',
-                    `command: ${cmd}`,
-                    `exit: code=${code ?? 'null'} signal=${signal ?? 'null'}`,
-                    stderr.trim().length > 0 ? '--- ffmpeg stderr (tail) ---' : undefined,
-                    stderr.trim().length > 0 ? trimTail(stderr, 24_000) : undefined,
-                ].filter(Boolean).join('\n');
-                reject(new Error(`ffmpeg failed\n${details}`));
-            });
-            proc.on('error', reject);
-        });
-        const match = output.match(/Duration: (\d{2}):(\d{2}):(\d{2}\.\d{2})/);
-        if (!match) throw new Error('Could not determine video duration');
-        const hours = parseInt(match[1] ?? '0');
-        const minutes = parseInt(match[2] ?? '0');
-        const seconds = parseFloat(match[3] ?? '0');
-        return hours * 3600 + minutes * 60 + seconds;
+    const context: DetectionContext = { filePath, probe, profile, options, logger, frameRate: FRAME_RATE };
+    const params: CombineParams = {
+        weights: profile.detectorWeights,
+        threshold: profile.combineThreshold,
+        consecutiveFrames: profile.consecutiveFrames,
+        frameRate: FRAME_RATE,
     };
-
-    const duration = await getTotalDuration(filePath);
-    let silencePeriods: { start: number, end: number }[] = [];
-    try {
-        silencePeriods = await detectSilencePeriods(filePath, logger, keepDebug);
-    } catch (err) {
-        // Cleanup and hard fail if no audio
-        logger.error(`[SILENCE] Fatal: ${err}`);
-        if (keepDebug) {
-            try { await fs.unlink('debug_silence.txt'); } catch { }
-        }
-        throw err;
-    }
-
-    let audioLevels: { ts: number, meanDb: number }[] = [];
-    try {
-        audioLevels = await detectAudioLevels(filePath, logger, keepDebug);
-    } catch (err) {
-        logger.error(`[AUDIO] Fatal: ${err}`);
-        if (keepDebug) {
-            try { await fs.unlink('debug_audio_levels.txt'); } catch { }
-        }
-        throw err;
+    const tmpBase = keepDebug ? path.join(os.tmpdir(), `nhk_magick_${Date.now()}_${Math.random().toString(36).slice(2)}`) : undefined;
+    /** Edges whose boundary came from the secondary pass; there is no black run to refine them on. */
+    const secondaryEdges = new Set<'start' | 'end'>();
+    if (expected) {
+        logger.info(`[WINDOWS] Centring windows on expected boundaries ${expected.programStart.toFixed(1)}s and ${expected.programEnd.toFixed(1)}s from the EPG`);
     }
-    let startMeans: number[] = [];
-    let endMeans: number[] = [];
 
-    if (keepDebug) {
-        // Use old temp file method for debug mode
-        const tmpBase = path.join(os.tmpdir(), `nhk_magick_${Date.now()}_${Math.random().toString(36).slice(2)}`);
-        const startDir = `${tmpBase}_start`;
-        const endDir = `${tmpBase}_end`;
-        await fs.mkdir(startDir, { recursive: true });
-        await fs.mkdir(endDir, { recursive: true });
-        logger.debug(`[DEBUG] Temp directories:\n  START: ${startDir}\n  END:   ${endDir}`);
-        // Extract frames to disk in parallel
-        const extractDiffFrames = async (ss: number, dir: string, label: string, windowSeconds: number) => {
-            const args = [
-                '-ss', ss.toString(),
-                '-i', filePath,
-                '-i', referenceImage,
-                '-t', windowSeconds.toString(),
-                '-filter_complex', maskArgs,
-                '-map', '[diff]',
-                '-q:v', '2',
-                path.join(dir, 'frame_%05d.png'),
-            ];
-            try {
-                logger.debug(`[${label}] FFmpeg command: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
-                await new Promise((resolve, reject) => {
-                    const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
-                    let stderr = '';
-                    if (proc.stderr) proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
-                    proc.on('close', (code, signal) => {
-                        if (code === 0) return resolve(null);
-                        const cmd = `ffmpeg ${args.map(a => `'${a}'`).join(' ')}`;
-                        const details = [
-                            `${label} frame extraction failed`,
-                            `command: ${cmd}`,
-                            `exit: code=${code ?? 'null'} signal=${signal ?? 'null'}`,
-                            stderr.trim().length > 0 ? '--- ffmpeg stderr (tail) ---' : undefined,
-                            stderr.trim().length > 0 ? trimTail(stderr, 24_000) : undefined,
-                        ].filter(Boolean).join('\n');
-                        reject(new Error(`ffmpeg failed\n${details}`));
-                    });
-                    proc.on('error', reject);
-                });
-                logger.success(`[${label}] Frame extraction complete.`);
-            } catch (err) {
-                logger.error(`[${label}] FFmpeg extraction error: ${err}`);
+    // Search one edge, widening the window until a boundary is found or the limit is reached.
+    // Each attempt re-decodes the whole window; widening is rare enough not to bother reusing evidence.
+    const searchEdge = async (edge: 'start' | 'end'): Promise<AnalysisTimeline> => {
+        let size = edge === 'start' ? profile.startWindow : profile.endWindow;
+        const initial = buildWindow(edge, size, duration, expected);
+        for (let attempt = 0; ; ++attempt) {
+            const window = buildWindow(edge, size, duration, expected);
+            if (attempt > 0) window.initial = { start: initial.offset, end: initial.offset + initial.duration };
+            if (tmpBase) {
+                window.debugDir = `${tmpBase}_${edge}${attempt > 0 ? `_${attempt}` : ''}`;
+                await fs.mkdir(window.debugDir, { recursive: true });
+                logger.debug(`[DEBUG] ${window.label} temp directory: ${window.debugDir}`);
             }
-        };
-        // Parallel extraction
-        await Promise.all([
-            extractDiffFrames(0, startDir, 'START', startWindow),
-            extractDiffFrames(Math.max(0, duration - endWindow), endDir, 'END', endWindow)
-        ]);
-        // Parallel mean calculation
-        const getFrameMeans = async (dir: string, label: string) => {
-            let files: string[] = [];
-            try {
-                const dirFiles = await fs.readdir(dir);
-                files = Array.isArray(dirFiles) ? dirFiles.filter(f => typeof f === 'string' && f.endsWith('.png')).sort() : [];
-            } catch {
-                files = [];
-            }
-            logger.info(`[${label}] Found ${files.length} frames for similarity analysis.`);
-            const means: number[] = [];
-            const debugLines: string[] = [];
-            logger.progress(`[${label}] Calculating similarity for ${files.length} frames...`);
-            for (const file of files) {
-                const imgPath = path.join(dir, file);
-                try {
-                    const { stdout } = await new Promise<{ stdout?: string }>((resolve, reject) => {
-                        let out = '';
-                        const proc = spawn('magick', [imgPath, '-colorspace', 'Gray', '-format', '%[fx:mean]', 'info:'], { stdio: ['ignore', 'pipe', 'ignore'] });
-                        proc.stdout.on('data', d => out += d.toString());
-                        proc.on('close', code => code === 0 ? resolve({ stdout: out }) : reject(new Error('magick failed')));
-                        proc.on('error', reject);
-                    });
-                    const mean = parseFloat((stdout ?? '').trim());
-                    means.push(isNaN(mean) ? 1 : mean);
-                    debugLines.push(`${file}: mean=${mean.toFixed(4)}, similarity=${((1 - mean) * 100).toFixed(2)}%`);
-                } catch (err) {
-                    logger.error(`[${label}] Magick error for ${file}: ${err}`);
-                    means.push(1);
-                    debugLines.push(`${file}: ERROR`);
-                }
+            const tracks = await Promise.all(detectors.map(detector => limit(() => detector.detect(window, context))));
+            if (catalogueDetector && !tracks.some(t => t.detector === catalogueDetector.name)) {
+                tracks.push(await limit(() => catalogueDetector.detect(window, context)));
             }
-            if (means.length > 0) {
-                const first5 = files.slice(0, 5).map((f, i) => {
-                    const m = means[i];
-                    return m !== undefined ? `${f} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)` : `${f} (mean=N/A, sim=N/A)`;
-                }).join(', ');
-                const last5 = files.slice(-5).map((f, i) => {
-                    const idx = means.length - 5 + i;
-                    const m = means[idx];
-                    return m !== undefined ? `${f} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)` : `${f} (mean=N/A, sim=N/A)`;
-                }).join(', ');
-                logger.debug(`[${label}] First 5: [${first5}]`);
-                logger.debug(`[${label}] Last 5: [${last5}]`);
+            const fused = fuseEvidence(tracks, params.weights);
+            if (window.debugDir) {
+                await writeFrameStatus(window, tracks, fused, params, logger);
             }
-            await fs.writeFile(path.join(dir, 'debug_means.txt') as string, debugLines.join('\n'), 'utf8');
-            return means;
-        };
-        const [startMeansResult, endMeansResult] = await Promise.all([
-            getFrameMeans(startDir, 'START'),
-            getFrameMeans(endDir, 'END')
-        ]);
-        startMeans = startMeansResult;
-        endMeans = endMeansResult;
-        // After startMeans and endMeans are calculated, add per-frame debug logging if keepDebug is set
-        if (keepDebug) {
-            // Helper to write per-frame status
-            async function writeFrameStatus(
-                means: number[],
-                label: string,
-                dir: string,
-                silencePeriods: { start: number, end: number }[],
-                audioLevels: { ts: number, meanDb: number }[],
-                windowStartMs: number = 0
-            ) {
-                const lines: string[] = [];
-                for (let i = 0; i < means.length; ++i) {
-                    const relTsMs = Math.round((i / FRAME_RATE) * 1000); // frame timestamp in ms (relative to window)
-                    const tsMs = relTsMs + windowStartMs; // absolute timestamp in ms
-                    const mean = means[i];
-                    const audioDbVal = getAudioLevelAt(i / FRAME_RATE, audioLevels);
-                    const audioDb: string = (audioDbVal === null || audioDbVal === undefined) ? 'N/A' : audioDbVal.toString();
-                    let matchedInterval: { start: number, end: number } | null = null;
-                    const silent = isFrameSilent(tsMs, silencePeriods, (interval: { start: number, end: number } | null) => { matchedInterval = interval; });
-                    const intervalStr = (matchedInterval && typeof (matchedInterval as { start: number, end: number }).start === 'number' && typeof (matchedInterval as { start: number, end: number }).end === 'number')
-                        ? `[${(matchedInterval as { start: number, end: number }).start}ms-${(matchedInterval as { start: number, end: number }).end}ms]`
-                        : 'NONE';
-                    if (typeof mean !== 'number' || isNaN(mean)) {
-                        lines.push(`frame_${String(i + 1).padStart(5, '0')}.png: ts=${(tsMs / 1000).toFixed(2)}s, mean=N/A, sim=N/A, black=NO, silent=${silent ? 'YES' : 'NO'}, valid=NO, audio_level=${audioDb}dB, silence_interval=${intervalStr}`);
-                        continue;
-                    }
-                    const sim = 1 - mean;
-                    const isBlack = sim >= SIMILARITY_THRESHOLD;
-                    const isValid = isBlack && silent;
-                    lines.push(`frame_${String(i + 1).padStart(5, '0')}.png: ts=${(tsMs / 1000).toFixed(2)}s, mean=${mean.toFixed(4)}, sim=${(sim * 100).toFixed(2)}%, black=${isBlack ? 'YES' : 'NO'}, silent=${silent ? 'YES' : 'NO'}, valid=${isValid ? 'YES' : 'NO'}, audio_level=${audioDb}dB, silence_interval=${intervalStr}`);
-                }
-                const filePath: string = (dir ? path.join(dir, `debug_frame_status_${label}.txt`) : `debug_frame_status_${label}.txt`);
-                await fs.writeFile(filePath as string, lines.join('\n'), 'utf8');
+            const candidates = constrainToCatalogue(findBoundaryCandidates(tracks, fused, window, params, logger), tracks, window, FRAME_RATE, logger);
+            const coversFile = window.offset === 0 && window.duration >= duration;
+            if (candidates.some(c => c.valid) || size >= profile.maxWindow || coversFile) {
+                if (attempt > 0) notes.push(`${window.label} window widened to ${window.duration.toFixed(0)}s`);
+                const timeline: AnalysisTimeline = { window, frameRate: FRAME_RATE, tracks, fused, candidates };
+                if (candidates.some(c => c.valid) || fallbackDetectors.length === 0) return timeline;
+                const secondary = await searchSecondary(timeline);
+                if (!secondary) return timeline;
+                secondaryEdges.add(edge);
+                return secondary;
             }
-            // Write for start and end, using correct window offset
-            await writeFrameStatus(startMeans, 'START', startDir, silencePeriods, audioLevels, 0);
-            const endWindowStartMs = Math.round((duration - endWindow) * 1000);
-            await writeFrameStatus(endMeans, 'END', endDir, silencePeriods, audioLevels, endWindowStartMs);
+            size = Math.min(profile.maxWindow, size * 2);
+            logger.info(`[${window.label}] No boundary found; widening window to ${size}s`);
         }
-    } else {
-        // In-memory, parallelized pipeline
-        logger.info('Analyzing start and end boundaries for black frames (in-memory, parallel)...');
-        const startPromise = (async () => {
-            const startFrames = await extractFramesToBuffers(
-                filePath,
-                referenceImage,
-                0,
-                startWindow,
-                maskArgs,
-                FRAME_RATE,
-                logger
-            );
-            return getFrameMeansFromBuffers(startFrames, 'START', options, logger);
-        })();
-        const endPromise = (async () => {
-            const endFrames = await extractFramesToBuffers(
-                filePath,
-                referenceImage,
-                Math.max(0, duration - endWindow),
-                endWindow,
-                maskArgs,
-                FRAME_RATE,
-                logger
-            );
-            return getFrameMeansFromBuffers(endFrames, 'END', options, logger);
-        })();
-        const [startMeansResult, endMeansResult] = await Promise.all([startPromise, endPromise]);
-        startMeans = startMeansResult;
-        endMeans = endMeansResult;
-    }
+    };
 
-    function findConsecutive(
-        means: number[],
-        threshold: number,
-        n: number,
-        mode: 'last' | 'first',
-        label: string,
-        logger: Logger,
-        validMask: boolean[],
-        debugLines: string[]
-    ): number | null {
-        let count = 0;
-        if (mode === 'last') {
-            for (let i = means.length - 1; i >= 0; --i) {
-                const similarity = 1 - (means[i] ?? 1);
-                if (means[i] !== undefined && similarity >= threshold && validMask[i]) {
-                    count++;
-                    if (count === n) {
-                        const values = means.slice(i, i + n).map((v, j) => `${v.toFixed(4)} (${((1 - v) * 100).toFixed(2)}%) [${validMask[i + j] ? 'B+S' : (similarity >= threshold ? 'B' : 'S')}]`).join(', ');
-                        logger.success(`[${label}] Found ${n} consecutive frames above threshold and silent at indices ${i} to ${i + n - 1}. Means/Sim: ${values}`);
-                        return i + n - 1;
-                    }
-                } else {
-                    count = 0;
-                }
-            }
-        } else {
-            for (let i = 0; i < means.length; ++i) {
-                const similarity = 1 - (means[i] ?? 1);
-                if (means[i] !== undefined && similarity >= threshold && validMask[i]) {
-                    count++;
-                    if (count === n) {
-                        const values = means.slice(i - n + 1, i + 1).map((v, j) => `${v.toFixed(4)} (${((1 - v) * 100).toFixed(2)}%) [${validMask[i - n + 1 + j] ? 'B+S' : (similarity >= threshold ? 'B' : 'S')}]`).join(', ');
-                        logger.success(`[${label}] Found ${n} consecutive frames above threshold and silent at indices ${i - n + 1} to ${i}. Means/Sim: ${values}`);
-                        return i - n + 1;
-                    }
-                } else {
-                    count = 0;
-                }
-            }
+    // No black run anywhere in the window: fuse the secondary detectors, reusing primary tracks
+    const searchSecondary = async (timeline: AnalysisTimeline): Promise<AnalysisTimeline | null> => {
+        const { window } = timeline;
+        const fallbackWeights = profile.fallbackWeights;
+        logger.info(`[${window.label}] No black run found; trying secondary detectors ${fallbackDetectors.map(d => d.name).join(', ')}`);
+        const missing = fallbackDetectors.filter(d => !timeline.tracks.some(t => t.detector === d.name));
+        const extra = await Promise.all(missing.map(detector => limit(() => detector.detect(window, context))));
+        const tracks = [...timeline.tracks, ...extra];
+        const fused = fuseEvidence(tracks, fallbackWeights);
+        const cuts = tracks.flatMap(t => (t.intervals ?? []).filter(i => i.start === i.end).map(i => i.start));
+        // Hard cuts are everywhere inside a programme; only trust those in the window first searched
+        const initial = window.initial ?? { start: window.offset, end: window.offset + window.duration };
+        const found = findBoundaryCandidates(tracks, fused, window, { ...params, weights: fallbackWeights }, logger)
+            .map((c) => {
+                const time = snapToCut(c, cuts);
+                return {
+                    ...c,
+                    time,
+                    valid: c.valid && time >= initial.start && time <= initial.end,
+                    confidence: Math.round(c.confidence * SECONDARY_CONFIDENCE * 1000) / 1000,
+                    needsReview: true,
+                };
+            });
+        const candidates = constrainToCatalogue(rankCandidates(found, window), tracks, window, FRAME_RATE, logger);
+        if (!candidates.some(c => c.valid)) return null;
+        notes.push(`${window.label} boundary from secondary detectors (${fallbackDetectors.map(d => d.name).join(', ')}), not a black run`);
+        return { window, frameRate: FRAME_RATE, tracks, fused, candidates };
+    };
+
+    // Both edges are searched in parallel; each detector decodes only its window
+    logger.info(`Analyzing start and end boundaries with ${detectors.map(d => d.name).join(', ')} (parallel)...`);
+    const timelines = await Promise.all([searchEdge('start'), searchEdge('end')]);
+    const startCandidates = timelines[0]!.candidates;
+    const endCandidates = timelines[1]!.candidates;
+
+    // Cut points sit in the middle of runs where the fused evidence reaches the threshold
+    const bestStart = startCandidates.find(c => c.valid);
+    const bestEnd = endCandidates.find(c => c.valid);
+    let programStart = bestStart ? bestStart.time : null;
+    let programEnd = bestEnd ? bestEnd.time : null;
+    const confidence = bestStart && bestEnd ? Math.min(bestStart.confidence, bestEnd.confidence) : 0;
+    const needsReview = { start: bestStart?.needsReview ?? false, end: bestEnd?.needsReview ?? false };
+
+    if (programStart === null) notes.push('No valid black period found at start');
+    if (programEnd === null) notes.push('No valid black period found at end');
+
+    // Record which reference matched at each cut, so mixed-era archives can be audited
+    const describeMatch = (label: string, candidate: BoundaryCandidate | undefined) => {
+        if (!candidate) return;
+        const reference = candidate.labels['black-reference'];
+        const similarity = candidate.measurements['black-reference'];
+        const match = reference !== undefined && similarity !== undefined
+            ? `matched reference ${reference} (similarity ${(similarity * 100).toFixed(2)}%, confidence ${candidate.confidence.toFixed(2)})`
+            : `confidence ${candidate.confidence.toFixed(2)}`;
+        notes.push(`${label} boundary ${match}`);
+    };
+    describeMatch('Start', bestStart);
+    describeMatch('End', bestEnd);
+
+    // The scan only samples a few frames per second; snap the cuts to the exact black frames
+    if (shouldRefine(options)) {
+        const [refinedStart, refinedEnd] = await Promise.all([
+            bestStart && !secondaryEdges.has('start') ? refineCut(filePath, bestStart, 'start', options, logger) : null,
+            bestEnd && !secondaryEdges.has('end') ? refineCut(filePath, bestEnd, 'end', options, logger) : null,
+        ]);
+        if (refinedStart !== null) {
+            notes.push(`Start refined from ${programStart?.toFixed(3)}s to ${refinedStart.toFixed(3)}s at the native frame rate`);
+            programStart = refinedStart;
+        }
+        if (refinedEnd !== null) {
+            notes.push(`End refined from ${programEnd?.toFixed(3)}s to ${refinedEnd.toFixed(3)}s at the native frame rate`);
+            programEnd = refinedEnd;
         }
-        logger.warning(`[${label}] No run of ${n} consecutive frames above threshold (${threshold}) and silent found.`);
-        return null;
     }
 
-    const frameToSec = (idx: number | null) => idx !== null ? idx / FRAME_RATE : 0;
-    const startValidMask = startMeans.map((_, i) => isFrameSilent(Math.round((i / FRAME_RATE) * 1000), silencePeriods));
-    const startIdx = findConsecutive(
-        startMeans,
-        SIMILARITY_THRESHOLD,
-        N_CONSECUTIVE,
-        'last',
-        'START',
-        logger,
-        startValidMask,
-        []
-    );
-    const endWindowStartMs = Math.round((duration - endWindow) * 1000);
-    const endValidMask = endMeans.map((_, i) => isFrameSilent(Math.round((i / FRAME_RATE) * 1000) + endWindowStartMs, silencePeriods));
-    const endIdx = findConsecutive(
-        endMeans,
-        SIMILARITY_THRESHOLD,
-        N_CONSECUTIVE,
-        'first',
-        'END',
-        logger,
-        endValidMask,
-        []
-    );
+    const detectorNames = detectors.map(d => d.name);
+    if (secondaryEdges.size > 0) {
+        detectorNames.push(...fallbackDetectors.map(d => d.name).filter(name => !detectorNames.includes(name)));
+    }
+    return { programStart, programEnd, confidence, needsReview, detectors: detectorNames, startCandidates, endCandidates, notes, timelines };
+}
 
-    // Helper: expand around an index to the full contiguous black+silence run and return midpoint index
-    const findRunMidpoint = (
-        means: number[],
-        idx: number | null,
-        threshold: number,
-        validMask: boolean[]
-    ): number | null => {
-        if (idx === null) return null;
-        const isBlackAt = (i: number) => (i >= 0 && i < means.length && (1 - (means[i] ?? 1)) >= threshold);
-        let lo = idx;
-        let hi = idx;
-        while (lo - 1 >= 0 && isBlackAt(lo - 1) && validMask[lo - 1]) lo--;
-        while (hi + 1 < means.length && isBlackAt(hi + 1) && validMask[hi + 1]) hi++;
-        return Math.floor((lo + hi) / 2);
+/**
+ * Scan the whole recording with the profile's detectors and return every break candidate
+ * (in time order) with the evidence behind them. Used to split recordings that hold several programmes.
+ */
+export async function detectProgrammeBreaks(
+    filePath: string,
+    options: ProgramOptions,
+    logger: Logger
+): Promise<{ breaks: BoundaryCandidate[]; timeline: AnalysisTimeline }> {
+    const profile = options.analysisProfile;
+    const detectors = createDetectors(profile.detectorWeights);
+    const probe = await probeMedia(filePath, logger);
+    const limit = pLimit(Math.max(1, options.parallelism || 2));
+    const window: AnalysisWindow = { edge: 'full', label: 'SCAN', offset: 0, duration: probe.duration };
+    const context: DetectionContext = { filePath, probe, profile, options, logger, frameRate: profile.frameRate };
+    const params: CombineParams = {
+        weights: profile.detectorWeights,
+        threshold: profile.combineThreshold,
+        consecutiveFrames: profile.consecutiveFrames,
+        frameRate: profile.frameRate,
     };
 
-    const startMidIdx = findRunMidpoint(startMeans, startIdx, SIMILARITY_THRESHOLD, startValidMask);
-    const endMidIdx = findRunMidpoint(endMeans, endIdx, SIMILARITY_THRESHOLD, endValidMask);
+    logger.info(`Scanning the whole recording (${probe.duration.toFixed(0)}s) for programme breaks with ${detectors.map(d => d.name).join(', ')}...`);
+    const tracks = await Promise.all(detectors.map(detector => limit(() => detector.detect(window, context))));
+    const fused = fuseEvidence(tracks, params.weights);
+    const breaks = findBoundaryCandidates(tracks, fused, window, params, logger).sort((a, b) => a.time - b.time);
+    return { breaks, timeline: { window, frameRate: profile.frameRate, tracks, fused, candidates: breaks } };
+}
 
-    // Choose cut points within black+silence runs (midpoints). This guarantees BOTH conditions at the cut.
-    const programStart = startMidIdx !== null ? frameToSec(startMidIdx) : null;
-    const programEnd = endMidIdx !== null ? duration - endWindow + frameToSec(endMidIdx) : null;
+/**
+ * Refinement re-scores frames against the black references, so it only applies when that detector is in use.
+ */
+export function shouldRefine(options: ProgramOptions): boolean {
+    return options.refine && (options.analysisProfile.detectorWeights['black-reference'] ?? 0) > 0;
+}
 
-    if (programStart === null) notes.push('No valid black period found at start');
-    if (programEnd === null) notes.push('No valid black period found at end');
+/**
+ * Hard cuts are exact frame times; move a candidate from the middle of its run to the cut
+ * inside it, when there is one.
+ */
+function snapToCut(candidate: BoundaryCandidate, cuts: number[]): number {
+    const inside = cuts.filter(t => t >= candidate.runStart && t <= candidate.runEnd);
+    if (inside.length === 0) return candidate.time;
+    return inside.reduce((best, t) => Math.abs(t - candidate.time) < Math.abs(best - candidate.time) ? t : best);
+}
 
-    return { programStart, programEnd, notes };
-} 
\ No newline at end of file
+/**
+ * Window of `size` seconds for one edge: centred on the expected boundary when known,
+ * otherwise anchored to that edge of the file. Always clamped to the recording.
+ */
+function buildWindow(edge: 'start' | 'end', size: number, duration: number, expected: ScheduleBoundaries | null): AnalysisWindow {
+    const label = edge === 'start' ? 'START' : 'END';
+    const span = Math.min(size, duration);
+    let offset: number;
+    let centre: number | undefined;
+    if (expected) {
+        centre = edge === 'start' ? expected.programStart : expected.programEnd;
+        offset = Math.min(Math.max(0, centre - span / 2), duration - span);
+    } else {
+        offset = edge === 'start' ? 0 : duration - span;
+    }
+    const window: AnalysisWindow = { edge, label, offset, duration: span };
+    if (centre !== undefined) window.expected = centre;
+    return window;
+}
+
+/**
+ * Per-frame evidence of every detector plus the fused score, for tuning weights.
+ * Written alongside the debug frames.
+ */
+async function writeFrameStatus(
+    window: AnalysisWindow,
+    tracks: EvidenceTrack[],
+    fused: number[],
+    params: CombineParams,
+    logger: Logger
+): Promise<void> {
+    const lines = fused.map((score, i) => {
+        const ts = window.offset + i / params.frameRate;
+        const evidence = tracks.map((track) => {
+            const value = track.values?.[i];
+            const label = track.labels?.[i];
+            const extra = [typeof value === 'number' ? value.toFixed(4) : undefined, label].filter(Boolean).join(', ');
+            return `${track.detector}=${(track.scores[i] ?? 0).toFixed(2)}${extra ? ` (${extra})` : ''}`;
+        }).join(', ');
+        return `frame_${String(i + 1).padStart(5, '0')}.png: ts=${ts.toFixed(2)}s, ${evidence}, combined=${score.toFixed(2)}, valid=${score >= params.threshold ? 'YES' : 'NO'}`;
+    });
+    const statusPath = path.join(window.debugDir ?? '.', `debug_frame_status_${window.label}.txt`);
+    await fs.writeFile(statusPath, lines.join('\n'), 'utf8').catch((err) => logger.warning(`[DEBUG] Could not write ${statusPath}: ${err}`));
+}
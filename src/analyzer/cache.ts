@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ChannelProfile } from './profiles.js';
+
+/**
+ * Bump whenever a change to the analyzer can change its results, so cached
+ * analyses from older versions are ignored.
+ */
+export const ANALYZER_VERSION = 8;
+
+/** Bytes hashed from each end of the recording. */
+const HASH_SAMPLE_BYTES = 1024 * 1024;
+
+/**
+ * What identifies a recording for the analysis cache. Size and mtime catch most changes
+ * cheaply; the partial hash catches files replaced in place with the same size and mtime.
+ */
+export interface FileIdentity {
+    path: string;
+    size: number;
+    mtimeMs: number;
+    /** SHA-1 of the first and last megabyte. */
+    partialHash: string;
+}
+
+export async function fileIdentity(filePath: string): Promise<FileIdentity> {
+    const resolved = path.resolve(filePath);
+    const stats = await fs.stat(resolved);
+    const hash = createHash('sha1');
+    const handle = await fs.open(resolved, 'r');
+    try {
+        const sample = Math.min(HASH_SAMPLE_BYTES, stats.size);
+        const head = Buffer.alloc(sample);
+        await handle.read(head, 0, sample, 0);
+        hash.update(head);
+        if (stats.size > sample) {
+            const tail = Buffer.alloc(sample);
+            await handle.read(tail, 0, sample, stats.size - sample);
+            hash.update(tail);
+        }
+    } finally {
+        await handle.close();
+    }
+    return { path: resolved, size: stats.size, mtimeMs: stats.mtimeMs, partialHash: hash.digest('hex') };
+}
+
+/**
+ * Hash of everything besides the file that an analysis result depends on: the kind of
+ * analysis, the analyzer version and its parameters (profile, refinement, EPG windows, ...).
+ */
+export function analysisParamsHash(kind: string, params: unknown): string {
+    return createHash('sha1').update(JSON.stringify({ kind, version: ANALYZER_VERSION, params })).digest('hex');
+}
+
+/**
+ * Size and mtime of every file the profile points at (reference images, logo template, ident
+ * clips), for the analysis parameters: re-calibrating a reference or replacing a clip in place
+ * then invalidates cached analyses. Files that cannot be read are recorded as missing.
+ */
+export async function profileFilesDigest(profile: ChannelProfile): Promise<Record<string, string>> {
+    const files = [...profile.references, ...(profile.logoTemplate ? [profile.logoTemplate] : []), ...profile.identClips];
+    const digest: Record<string, string> = {};
+    for (const file of files) {
+        const stats = await fs.stat(file).catch(() => null);
+        digest[file] = stats ? `${stats.size}:${stats.mtimeMs}` : 'missing';
+    }
+    return digest;
+}
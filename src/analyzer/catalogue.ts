@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { spawn } from 'child_process';
+import { Logger } from '../logger.js';
+
+export type CatalogueTag = 'promo' | 'ident' | 'programme';
+export const CATALOGUE_TAGS: readonly CatalogueTag[] = ['promo', 'ident', 'programme'];
+
+/** dHash input: one extra column so each of the 8 rows yields 8 left/right comparisons. */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface CatalogueEntry {
+    /** 64-bit dHash as 16 hex digits. */
+    hash: string;
+    tag: CatalogueTag;
+    /** Free text, e.g. the promoted show. */
+    label?: string;
+    /** Recording and time the frame was taken from. */
+    source: string;
+    time: number;
+    addedAt: string;
+}
+
+/**
+ * Perceptual hashes of frames known to be promos, idents or programme content, grown over
+ * time with `nhk-ts catalogue tag`.
+ */
+export interface Catalogue {
+    version: 1;
+    entries: CatalogueEntry[];
+}
+
+const loaded = new Map<string, Promise<Catalogue>>();
+
+/**
+ * Read the catalogue at `filePath`; a missing file is an empty catalogue. Any other read error
+ * and any malformed entry throws, so a later `catalogue tag` never overwrites a catalogue it
+ * could not read. Loaded once per process.
+ */
+export function loadCatalogue(filePath: string): Promise<Catalogue> {
+    let catalogue = loaded.get(filePath);
+    if (!catalogue) {
+        catalogue = fs.readFile(filePath, 'utf-8').then(
+            (raw) => {
+                try {
+                    return parseCatalogue(raw);
+                } catch (err) {
+                    throw new Error(`Invalid catalogue ${filePath}: ${err instanceof Error ? err.message : err}`);
+                }
+            },
+            (err: NodeJS.ErrnoException): Catalogue => {
+                if (err.code === 'ENOENT') return { version: 1, entries: [] };
+                throw new Error(`Could not read catalogue ${filePath}: ${err.message}`);
+            }
+        );
+        loaded.set(filePath, catalogue);
+    }
+    return catalogue;
+}
+
+function parseCatalogue(raw: string): Catalogue {
+    const parsed = JSON.parse(raw) as Catalogue;
+    if (!Array.isArray(parsed.entries)) throw new Error('missing "entries"');
+    parsed.entries.forEach((entry, i) => {
+        if (typeof entry?.hash !== 'string' || !/^[0-9a-f]{16}$/i.test(entry.hash)) {
+            throw new Error(`entry ${i + 1}: "hash" must be 16 hex digits`);
+        }
+        if (!CATALOGUE_TAGS.includes(entry.tag)) {
+            throw new Error(`entry ${i + 1}: "tag" must be one of ${CATALOGUE_TAGS.join(', ')}`);
+        }
+    });
+    return parsed;
+}
+
+export async function saveCatalogue(filePath: string, catalogue: Catalogue): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify(catalogue, null, 2) + '\n', 'utf-8');
+    loaded.set(filePath, Promise.resolve(catalogue));
+}
+
+/**
+ * Short digest of the catalogue contents, so cached analyses are redone after tagging.
+ */
+export function catalogueDigest(catalogue: Catalogue): string {
+    const content = catalogue.entries.map(e => `${e.hash}:${e.tag}`).sort().join(',');
+    return createHash('sha1').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * dHash of one 9x8 grayscale frame: bit set where a pixel is brighter than its right neighbour.
+ */
+export function dHash(pixels: Uint8Array | Buffer): string {
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; ++y) {
+        let byte = 0;
+        for (let x = 0; x < HASH_WIDTH - 1; ++x) {
+            const left = pixels[y * HASH_WIDTH + x]!;
+            const right = pixels[y * HASH_WIDTH + x + 1]!;
+            byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let x = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        for (; x; x &= x - 1) distance++;
+    }
+    return distance;
+}
+
+/**
+ * Nearest catalogue entry within `maxDistance` bits, if any.
+ */
+export function matchHash(hash: string, catalogue: Catalogue, maxDistance: number): { entry: CatalogueEntry; distance: number } | null {
+    let best: { entry: CatalogueEntry; distance: number } | null = null;
+    for (const entry of catalogue.entries) {
+        const distance = hammingDistance(hash, entry.hash);
+        if (distance <= maxDistance && (!best || distance < best.distance)) best = { entry, distance };
+    }
+    return best;
+}
+
+/**
+ * dHash of every frame sampled at `frameRate` in `[ss, ss + duration)`.
+ */
+export function extractFrameHashes(
+    filePath: string,
+    ss: number,
+    duration: number,
+    frameRate: number,
+    logger: Logger
+): Promise<string[]> {
+    const args = [
+        '-hide_banner',
+        '-ss', ss.toString(),
+        '-i', filePath,
+        '-t', duration.toString(),
+        '-map', '0:v:0',
+        '-vf', `fps=${frameRate},scale=${HASH_WIDTH}:${HASH_HEIGHT}:flags=area,format=gray`,
+        '-f', 'rawvideo',
+        '-pix_fmt', 'gray',
+        'pipe:1',
+    ];
+    logger.debug(`[HASH] ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    const frameSize = HASH_WIDTH * HASH_HEIGHT;
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        proc.on('close', (code) => {
+            if (code !== 0) {
+                return reject(new Error(`ffmpeg frame hashing failed: ${stderr.trim().slice(-2000)}`));
+            }
+            const data = Buffer.concat(chunks);
+            const hashes: string[] = [];
+            for (let offset = 0; offset + frameSize <= data.length; offset += frameSize) {
+                hashes.push(dHash(data.subarray(offset, offset + frameSize)));
+            }
+            resolve(hashes);
+        });
+        proc.on('error', reject);
+    });
+}
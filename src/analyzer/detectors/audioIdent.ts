@@ -0,0 +1,72 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { decodePcm, findClipMatches, fingerprintAudio, type AudioFingerprint } from '../fingerprint.js';
+import { selectAudioStream } from '../../mediaProbe.js';
+import { Logger } from '../../logger.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/** Clip fingerprints by path; the same idents are searched in every window of every recording. */
+const clipFingerprints = new Map<string, Promise<AudioFingerprint>>();
+
+function clipFingerprint(clip: string, logger: Logger): Promise<AudioFingerprint> {
+    let fingerprint = clipFingerprints.get(clip);
+    if (!fingerprint) {
+        fingerprint = decodePcm(clip, logger).then(fingerprintAudio);
+        clipFingerprints.set(clip, fingerprint);
+    }
+    return fingerprint;
+}
+
+/**
+ * Finds the profile's reference ident/jingle clips in the window's audio with a spectral
+ * fingerprint. Frames covered by a match score 1; values carry the match score and labels
+ * the clip, and intervals are the matches themselves.
+ */
+export class AudioIdentDetector implements BoundaryDetector {
+    readonly name = 'audio-ident';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { probe, profile, logger } = context;
+        if (profile.identClips.length === 0) {
+            throw new Error(`Detector "${this.name}" needs "identClips" in channel profile "${profile.name}"`);
+        }
+        const audioStream = selectAudioStream(probe, ['ac3', 'eac3']);
+        if (!audioStream) {
+            throw new Error(`No audio stream found in ${context.filePath}`);
+        }
+
+        const samples = await decodePcm(context.filePath, logger, `0:${audioStream.index}`, window.offset, window.duration);
+        const haystack = fingerprintAudio(samples);
+        const matches: { start: number; end: number; score: number; clip: string }[] = [];
+        for (const clip of profile.identClips) {
+            const found = findClipMatches(haystack, await clipFingerprint(clip, logger), profile.identThreshold);
+            matches.push(...found.map(m => ({ start: window.offset + m.offset, end: window.offset + m.offset + m.duration, score: m.score, clip })));
+        }
+        matches.sort((a, b) => a.start - b.start);
+        matches.forEach(m => logger.info(`[IDENT] ${window.label} ${path.basename(m.clip)} at ${m.start.toFixed(2)}s–${m.end.toFixed(2)}s (score ${m.score.toFixed(2)})`));
+        if (matches.length === 0) logger.info(`[IDENT] ${window.label} no ident clip found`);
+        if (window.debugDir) {
+            const lines = matches.map(m => `ident: ${m.clip} ${m.start.toFixed(3)}s - ${m.end.toFixed(3)}s score=${m.score.toFixed(3)}`);
+            await fs.writeFile(path.join(window.debugDir, 'debug_idents.txt'), lines.join('\n'), 'utf8').catch(() => { });
+        }
+
+        const frameCount = Math.floor(window.duration * context.frameRate);
+        const scores: number[] = [];
+        const values: (number | null)[] = [];
+        const labels: string[] = [];
+        for (let i = 0; i < frameCount; ++i) {
+            const ts = window.offset + i / context.frameRate;
+            const match = matches.filter(m => ts >= m.start && ts <= m.end).sort((a, b) => b.score - a.score)[0];
+            scores.push(match ? 1 : 0);
+            values.push(match ? match.score : null);
+            labels.push(match ? path.basename(match.clip) : '');
+        }
+        return {
+            detector: this.name,
+            scores,
+            values,
+            labels,
+            intervals: matches.map(m => ({ start: m.start, end: m.end })),
+        };
+    }
+}
@@ -0,0 +1,41 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { extractFrameMeans, logFrameMeans } from '../frames.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/**
+ * Scores frames by masked difference against the profile's reference black/ident images.
+ * A frame scores 1 when its best similarity reaches the profile threshold.
+ */
+export class BlackReferenceDetector implements BoundaryDetector {
+    readonly name = 'black-reference';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { profile, logger } = context;
+        const references = profile.references;
+        const { means, referenceIndex } = await extractFrameMeans(
+            context.filePath,
+            references,
+            window.offset,
+            window.duration,
+            profile.mask,
+            context.frameRate,
+            logger,
+            window.debugDir
+        );
+        logger.info(`[${window.label}] Calculated similarity for ${means.length} frames.`);
+        logFrameMeans(means, window.label, logger);
+        if (window.debugDir) {
+            const debugLines = means.map((mean, i) => `frame_${String(i + 1).padStart(5, '0')}.png: mean=${mean.toFixed(4)}, similarity=${((1 - mean) * 100).toFixed(2)}%, reference=${references[referenceIndex[i] ?? 0]}`);
+            await fs.writeFile(path.join(window.debugDir, 'debug_means.txt'), debugLines.join('\n'), 'utf8');
+        }
+
+        const similarities = means.map(m => 1 - m);
+        return {
+            detector: this.name,
+            scores: similarities.map(sim => sim >= profile.similarityThreshold ? 1 : 0),
+            values: similarities,
+            labels: referenceIndex.map(i => references[i] ?? ''),
+        };
+    }
+}
@@ -0,0 +1,218 @@
+import { Logger } from '../../logger.js';
+import type { BoundaryCandidate } from '../../types.js';
+import type { AnalysisWindow, EvidenceTrack } from './types.js';
+
+/**
+ * Weights of the candidate confidence score; each component is normalised to 0-1.
+ */
+const CONFIDENCE_WEIGHTS = {
+    evidence: 0.6,
+    length: 0.2,
+    position: 0.2,
+};
+
+export interface CombineParams {
+    /** Detector weights; tracks from detectors without a positive weight are ignored. */
+    weights: Record<string, number>;
+    /** Fused score a frame needs to be cut on. */
+    threshold: number;
+    /** Consecutive frames at or above the threshold required for a cut. */
+    consecutiveFrames: number;
+    frameRate: number;
+}
+
+/**
+ * Weighted mean of all tracks per frame. The timeline is as long as the longest track;
+ * frames a shorter track does not cover count as 0 for it.
+ */
+export function fuseEvidence(tracks: EvidenceTrack[], weights: Record<string, number>): number[] {
+    const active = tracks.filter(t => (weights[t.detector] ?? 0) > 0);
+    const totalWeight = active.reduce((sum, t) => sum + (weights[t.detector] ?? 0), 0);
+    const length = Math.max(0, ...active.map(t => t.scores.length));
+    const fused = new Array<number>(length).fill(0);
+    if (totalWeight === 0) return fused;
+    for (const track of active) {
+        const w = (weights[track.detector] ?? 0) / totalWeight;
+        track.scores.forEach((score, i) => { fused[i]! += w * score; });
+    }
+    return fused;
+}
+
+/**
+ * Invalidate candidates that would put a catalogued promo or ident inside the programme, or a
+ * catalogued programme frame outside it, using the labels of the `frame-hash` track.
+ */
+export function constrainToCatalogue(
+    candidates: BoundaryCandidate[],
+    tracks: EvidenceTrack[],
+    window: AnalysisWindow,
+    frameRate: number,
+    logger: Logger
+): BoundaryCandidate[] {
+    const track = tracks.find(t => t.detector === 'frame-hash');
+    if (!track?.labels || window.edge === 'full') return candidates;
+    const timesOf = (tags: string[]) => track.labels!.flatMap((label, i) => tags.includes(label) ? [window.offset + i / frameRate] : []);
+    const outside = timesOf(['promo', 'ident']);
+    const inside = timesOf(['programme']);
+    if (outside.length === 0 && inside.length === 0) return candidates;
+
+    let rejected = 0;
+    const constrained = candidates.map((c) => {
+        const conflict = window.edge === 'start'
+            ? outside.some(t => t > c.time) || inside.some(t => t < c.time)
+            : outside.some(t => t < c.time) || inside.some(t => t > c.time);
+        if (!conflict || !c.valid) return c;
+        rejected++;
+        return { ...c, valid: false };
+    });
+    if (rejected === 0) return constrained;
+    logger.info(`[${window.label}] ${rejected} candidate(s) rejected by the promo catalogue`);
+    return rankCandidates(constrained, window);
+}
+
+/**
+ * Turn fused evidence into boundary candidates. A candidate is any run of at least
+ * `consecutiveFrames` frames with partial evidence (half the threshold); it is valid when it
+ * contains enough consecutive frames at the full threshold, and the cut is placed in the
+ * middle of that part (the last such part at the start, the first at the end).
+ *
+ * The first candidate is the chosen cut, picked by position (see {@link pickCut}); the
+ * alternatives follow by confidence. Confidence never moves the cut, it only flags it.
+ */
+export function findBoundaryCandidates(
+    tracks: EvidenceTrack[],
+    fused: number[],
+    window: AnalysisWindow,
+    params: CombineParams,
+    logger: Logger
+): BoundaryCandidate[] {
+    const { threshold, consecutiveFrames: n, frameRate } = params;
+    const frameToSec = (idx: number) => window.offset + idx / frameRate;
+    const runs: { lo: number, hi: number }[] = [];
+    for (let i = 0; i < fused.length; ++i) {
+        if (fused[i]! < threshold / 2) continue;
+        let hi = i;
+        while (hi + 1 < fused.length && fused[hi + 1]! >= threshold / 2) hi++;
+        if (hi - i + 1 >= n) runs.push({ lo: i, hi });
+        i = hi;
+    }
+
+    const candidates = runs.map((run, order): BoundaryCandidate => {
+        let cutRun: { lo: number, hi: number } | null = null;
+        let subLo = -1;
+        let fusedSum = 0;
+        for (let i = run.lo; i <= run.hi; ++i) {
+            fusedSum += fused[i]!;
+            if (fused[i]! < threshold) continue;
+            if (subLo < 0) subLo = i;
+            if (i === run.hi || fused[i + 1]! < threshold) {
+                if (i - subLo + 1 >= n && (window.edge === 'start' || cutRun === null)) cutRun = { lo: subLo, hi: i };
+                subLo = -1;
+            }
+        }
+        const runFrames = run.hi - run.lo + 1;
+        const cut = cutRun ?? run;
+        const midIdx = Math.floor((cut.lo + cut.hi) / 2);
+
+        const evidence: Record<string, number> = {};
+        const measurements: Record<string, number> = {};
+        const labels: Record<string, string> = {};
+        for (const track of tracks) {
+            let scoreSum = 0;
+            let valueSum = 0;
+            let valueCount = 0;
+            for (let i = run.lo; i <= run.hi; ++i) {
+                scoreSum += track.scores[i] ?? 0;
+                const value = track.values?.[i];
+                if (typeof value === 'number' && isFinite(value)) {
+                    valueSum += value;
+                    valueCount++;
+                }
+            }
+            evidence[track.detector] = scoreSum / runFrames;
+            if (valueCount > 0) measurements[track.detector] = valueSum / valueCount;
+            const label = track.labels?.[midIdx];
+            if (label) labels[track.detector] = label;
+        }
+
+        const length = Math.min(1, (cut.hi - cut.lo + 1) / (2 * n));
+        let position: number;
+        if (window.expected !== undefined) {
+            // Centred windows: prefer the run closest to the scheduled boundary
+            position = Math.max(0, 1 - Math.abs(frameToSec(midIdx) - window.expected) / (window.duration / 2));
+        } else if (window.edge === 'full' || runs.length === 1) {
+            position = 1;
+        } else {
+            // Programmes start after the last break in the start window and end at the first in the end window
+            position = window.edge === 'start' ? order / (runs.length - 1) : 1 - order / (runs.length - 1);
+        }
+        let confidence = CONFIDENCE_WEIGHTS.evidence * (fusedSum / runFrames)
+            + CONFIDENCE_WEIGHTS.length * length
+            + CONFIDENCE_WEIGHTS.position * position;
+        if (cutRun === null) confidence *= 0.5;
+
+        return {
+            time: frameToSec(midIdx),
+            runStart: frameToSec(run.lo),
+            runEnd: frameToSec(run.hi + 1),
+            runFrames,
+            evidence,
+            measurements,
+            labels,
+            valid: cutRun !== null,
+            confidence: Math.round(confidence * 1000) / 1000,
+            // Cuts found only by widening the window are never made unattended
+            needsReview: distanceFromInitial(frameToSec(midIdx), window) > 0,
+        };
+    });
+
+    const ranked = rankCandidates(candidates, window);
+    const best = ranked.find(c => c.valid);
+    if (best) {
+        const parts = Object.entries(best.evidence).map(([name, score]) => `${name} ${(score * 100).toFixed(0)}%`).join(', ');
+        logger.success(`[${window.label}] ${candidates.length} candidate(s); cut at ${best.time.toFixed(2)}s (${best.runFrames} frames, ${parts}, confidence ${best.confidence.toFixed(2)})`);
+    } else {
+        logger.warning(`[${window.label}] No run of ${n} consecutive frames with combined evidence >= ${threshold} found.`);
+    }
+    return ranked;
+}
+
+/**
+ * The chosen cut first (see {@link pickCut}), then the alternatives by confidence.
+ */
+export function rankCandidates(candidates: BoundaryCandidate[], window: AnalysisWindow): BoundaryCandidate[] {
+    const best = pickCut(candidates, window);
+    const alternatives = candidates.filter(c => c !== best).sort((a, b) => b.confidence - a.confidence);
+    return best ? [best, ...alternatives] : alternatives;
+}
+
+/**
+ * Seconds from `time` to the window's span before widening; 0 inside it or when it was not widened.
+ */
+function distanceFromInitial(time: number, window: AnalysisWindow): number {
+    if (!window.initial) return 0;
+    return Math.max(0, window.initial.start - time, time - window.initial.end);
+}
+
+/**
+ * The cut among valid candidates: the one closest to the scheduled boundary in
+ * centred windows, otherwise the last at the start and the first at the end, since programmes
+ * start after the last break in the start window and end at the first in the end window.
+ * In a widened window only the candidates nearest the original window compete, so a fade to
+ * black deep inside the programme does not win just for being last or first.
+ */
+function pickCut(candidates: BoundaryCandidate[], window: AnalysisWindow): BoundaryCandidate | undefined {
+    let valid = candidates.filter(c => c.valid).sort((a, b) => a.time - b.time);
+    if (window.initial && window.expected === undefined && valid.length > 0) {
+        const nearest = Math.min(...valid.map(c => distanceFromInitial(c.time, window)));
+        valid = valid.filter(c => distanceFromInitial(c.time, window) === nearest);
+    }
+    if (window.expected !== undefined) {
+        const expected = window.expected;
+        return valid.reduce<BoundaryCandidate | undefined>((best, c) =>
+            !best || Math.abs(c.time - expected) < Math.abs(best.time - expected) ? c : best, undefined);
+    }
+    if (window.edge === 'start') return valid[valid.length - 1];
+    if (window.edge === 'end') return valid[0];
+    return valid.reduce<BoundaryCandidate | undefined>((best, c) => !best || c.confidence > best.confidence ? c : best, undefined);
+}
@@ -0,0 +1,44 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { extractFrameHashes, loadCatalogue, matchHash } from '../catalogue.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/**
+ * Looks every sampled frame up in the promo catalogue by perceptual hash. Frames matching a
+ * promo or ident score 1; labels carry the matched tag and values the Hamming distance.
+ * Besides any weight it is given, the analyzer uses the labels to keep cuts on the right
+ * side of known promos and programme frames.
+ */
+export class FrameHashDetector implements BoundaryDetector {
+    readonly name = 'frame-hash';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { profile, logger } = context;
+        const catalogue = await loadCatalogue(context.options.catalogue);
+        const hashes = await extractFrameHashes(context.filePath, window.offset, window.duration, context.frameRate, logger);
+        const matches = hashes.map(hash => matchHash(hash, catalogue, profile.hashDistance));
+
+        const counts = new Map<string, number>();
+        matches.forEach(m => { if (m) counts.set(m.entry.tag, (counts.get(m.entry.tag) ?? 0) + 1); });
+        logger.info(`[HASH] ${window.label} ${hashes.length} frames against ${catalogue.entries.length} catalogue entries: ${[...counts].map(([tag, n]) => `${n} ${tag}`).join(', ') || 'no matches'}`);
+        if (window.debugDir) {
+            const lines = hashes.map((hash, i) => {
+                const m = matches[i];
+                return `frame_${String(i + 1).padStart(5, '0')}: ts=${(window.offset + i / context.frameRate).toFixed(2)}s, hash=${hash}${m ? `, ${m.entry.tag}${m.entry.label ? ` (${m.entry.label})` : ''} at distance ${m.distance}` : ''}`;
+            });
+            await fs.writeFile(path.join(window.debugDir, 'debug_frame_hashes.txt'), lines.join('\n'), 'utf8').catch(() => { });
+        }
+
+        const frameCount = Math.floor(window.duration * context.frameRate);
+        const scores: number[] = [];
+        const values: (number | null)[] = [];
+        const labels: string[] = [];
+        for (let i = 0; i < frameCount; ++i) {
+            const m = matches[i];
+            scores.push(m && m.entry.tag !== 'programme' ? 1 : 0);
+            values.push(m ? m.distance : null);
+            labels.push(m ? m.entry.tag : '');
+        }
+        return { detector: this.name, scores, values, labels };
+    }
+}
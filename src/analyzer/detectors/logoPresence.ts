@@ -0,0 +1,41 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { extractLogoPresence } from '../frames.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/**
+ * Scores frames by whether the channel's logo bug is missing from the mask region. The bug is
+ * on screen during programmes and off during idents and most promos, so its disappearance and
+ * reappearance mark a break even where there is no black frame. Values carry the presence (0-1).
+ */
+export class LogoPresenceDetector implements BoundaryDetector {
+    readonly name = 'logo-presence';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { profile, logger } = context;
+        if (!profile.logoTemplate) {
+            throw new Error(`Detector "${this.name}" needs a "logoTemplate" in channel profile "${profile.name}"`);
+        }
+        const presence = await extractLogoPresence(
+            context.filePath,
+            profile.logoTemplate,
+            window.offset,
+            window.duration,
+            profile.mask,
+            context.frameRate,
+            logger
+        );
+        const absent = presence.filter(p => p < profile.logoThreshold).length;
+        logger.info(`[LOGO] ${window.label} logo absent in ${absent} of ${presence.length} frames`);
+        if (window.debugDir) {
+            const lines = presence.map((p, i) => `frame_${String(i + 1).padStart(5, '0')}: ts=${(window.offset + i / context.frameRate).toFixed(2)}s, presence=${p.toFixed(3)}`);
+            await fs.writeFile(path.join(window.debugDir, 'debug_logo_presence.txt'), lines.join('\n'), 'utf8').catch(() => { });
+        }
+
+        return {
+            detector: this.name,
+            scores: presence.map(p => p < profile.logoThreshold ? 1 : 0),
+            values: presence,
+        };
+    }
+}
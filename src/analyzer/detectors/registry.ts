@@ -0,0 +1,35 @@
+import { BlackReferenceDetector } from './blackReference.js';
+import { SilenceDetector } from './silence.js';
+import { SceneChangeDetector } from './sceneChange.js';
+import { LogoPresenceDetector } from './logoPresence.js';
+import { AudioIdentDetector } from './audioIdent.js';
+import { FrameHashDetector } from './frameHash.js';
+import type { BoundaryDetector } from './types.js';
+
+/**
+ * Available detectors by name. Register new detectors here; they take part in analysis
+ * once the channel profile gives them a positive weight.
+ */
+const DETECTORS: Record<string, () => BoundaryDetector> = {
+    'black-reference': () => new BlackReferenceDetector(),
+    'silence': () => new SilenceDetector(),
+    'scene-change': () => new SceneChangeDetector(),
+    'logo-presence': () => new LogoPresenceDetector(),
+    'audio-ident': () => new AudioIdentDetector(),
+    'frame-hash': () => new FrameHashDetector(),
+};
+
+export const DETECTOR_NAMES = Object.keys(DETECTORS);
+
+/**
+ * Instantiate every detector with a positive weight.
+ */
+export function createDetectors(weights: Record<string, number>): BoundaryDetector[] {
+    const unknown = Object.keys(weights).filter(name => !DETECTORS[name]);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown detector(s): ${unknown.join(', ')}. Available: ${DETECTOR_NAMES.join(', ')}`);
+    }
+    return Object.entries(weights)
+        .filter(([, weight]) => weight > 0)
+        .map(([name]) => DETECTORS[name]!());
+}
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { spawn } from 'child_process';
+import { analyzeAudioWindow } from '../audioWindow.js';
+import { selectAudioStream } from '../../mediaProbe.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/** Frames within this many seconds of a hard cut are scored for it. */
+const CUT_SPAN = 0.25;
+/** Audio around a cut is searched this far either side for a dip. */
+const DIP_SPAN = 0.5;
+/** A dip is this far below the window's median RMS level, or below the silence floor. */
+const DIP_DB = 20;
+/** Score of a hard cut without an audio dip; too weak to cut on alone at the default threshold. */
+const CUT_ONLY_SCORE = 0.5;
+
+/**
+ * Parse `metadata=mode=print` output of the scene score into hard cuts (window-relative seconds).
+ */
+export function parseSceneCuts(stderr: string): { time: number; score: number }[] {
+    const cuts: { time: number; score: number }[] = [];
+    let curTs: number | null = null;
+    for (const line of stderr.split('\n')) {
+        const tsMatch = line.match(/pts_time:([0-9.]+)/);
+        if (tsMatch && typeof tsMatch[1] === 'string') {
+            curTs = parseFloat(tsMatch[1]);
+        }
+        const scoreMatch = line.match(/lavfi\.scene_score=([0-9.]+)/);
+        if (scoreMatch && typeof scoreMatch[1] === 'string' && curTs !== null) {
+            cuts.push({ time: curTs, score: parseFloat(scoreMatch[1]) });
+            curTs = null;
+        }
+    }
+    return cuts;
+}
+
+/**
+ * Finds hard cuts with ffmpeg's scene score and scores them by whether the audio dips at the
+ * same moment, which is how NHK cuts from a promo straight into a programme without black.
+ * Values carry the scene score; intervals are the cuts themselves (zero length) so candidates
+ * can be snapped to the exact frame.
+ */
+export class SceneChangeDetector implements BoundaryDetector {
+    readonly name = 'scene-change';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { probe, profile, logger } = context;
+        const audioStream = selectAudioStream(probe, ['ac3', 'eac3']);
+        const [cuts, audio] = await Promise.all([
+            this.findCuts(window, context),
+            audioStream
+                ? analyzeAudioWindow(
+                    context.filePath,
+                    `0:${audioStream.index}`,
+                    window.offset,
+                    window.duration,
+                    { threshold: profile.silenceThreshold, minDuration: profile.minSilenceDuration },
+                    window.label,
+                    logger
+                )
+                : null,
+        ]);
+
+        const levels = audio?.audioLevels ?? [];
+        const sorted = levels.map(l => l.meanDb).filter(db => isFinite(db)).sort((a, b) => a - b);
+        const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+        const dipLevel = Math.max(profile.silenceThreshold, median - DIP_DB);
+        const hasDip = (time: number) => {
+            const ms = time * 1000;
+            if (audio?.silencePeriods.some(p => p.start <= ms + DIP_SPAN * 1000 && p.end >= ms - DIP_SPAN * 1000)) return true;
+            return levels.some(l => Math.abs(l.ts - time) <= DIP_SPAN && l.meanDb <= dipLevel);
+        };
+        const scored = cuts.map(cut => ({ ...cut, dip: hasDip(cut.time) }));
+        logger.info(`[SCENE] ${window.label} ${scored.length} hard cut(s), ${scored.filter(c => c.dip).length} with an audio dip (below ${dipLevel.toFixed(1)} dB)`);
+        if (window.debugDir) {
+            const lines = scored.map(c => `cut: ${c.time.toFixed(3)}s score=${c.score.toFixed(3)} dip=${c.dip ? 'YES' : 'NO'}`);
+            await fs.writeFile(path.join(window.debugDir, 'debug_scene_cuts.txt'), lines.join('\n'), 'utf8').catch(() => { });
+        }
+
+        const frameCount = Math.floor(window.duration * context.frameRate);
+        const scores: number[] = [];
+        const values: (number | null)[] = [];
+        for (let i = 0; i < frameCount; ++i) {
+            const ts = window.offset + i / context.frameRate;
+            const near = scored.filter(c => Math.abs(c.time - ts) <= CUT_SPAN);
+            scores.push(near.length === 0 ? 0 : near.some(c => c.dip) ? 1 : CUT_ONLY_SCORE);
+            values.push(near.length === 0 ? null : Math.max(...near.map(c => c.score)));
+        }
+        return {
+            detector: this.name,
+            scores,
+            values,
+            intervals: scored.map(c => ({ start: c.time, end: c.time })),
+        };
+    }
+
+    /**
+     * Decode the window at low resolution and keep the frames whose scene score exceeds the
+     * profile's threshold. Times are absolute.
+     */
+    private findCuts(window: AnalysisWindow, context: DetectionContext): Promise<{ time: number; score: number }[]> {
+        const { logger, profile } = context;
+        const args = [
+            '-hide_banner',
+            '-ss', window.offset.toString(),
+            '-t', window.duration.toString(),
+            '-i', context.filePath,
+            '-an',
+            '-map', '0:v:0',
+            '-vf', `scale=320:-2,select='gt(scene,${profile.sceneThreshold})',metadata=mode=print:key=lavfi.scene_score`,
+            '-f', 'null',
+            '-'
+        ];
+        logger.debug(`[${window.label}] Scene window ${window.offset.toFixed(2)}s +${window.duration}s: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+        return new Promise((resolve, reject) => {
+            let stderr = '';
+            const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+            proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+            proc.on('close', (code) => {
+                if (code !== 0) {
+                    logger.error(`[${window.label}] FFmpeg scene detection failed`);
+                    return reject(new Error('ffmpeg scene detection failed'));
+                }
+                resolve(parseSceneCuts(stderr).map(c => ({ time: c.time + window.offset, score: c.score })));
+            });
+            proc.on('error', reject);
+        });
+    }
+}
@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { analyzeAudioWindow } from '../audioWindow.js';
+import { getAudioLevelAt, isFrameSilent } from '../helpers.js';
+import { selectAudioStream } from '../../mediaProbe.js';
+import type { AnalysisWindow, BoundaryDetector, DetectionContext, EvidenceTrack } from './types.js';
+
+/**
+ * Scores frames by whether they fall inside a silencedetect period of the window.
+ * Values carry the RMS level at each frame.
+ */
+export class SilenceDetector implements BoundaryDetector {
+    readonly name = 'silence';
+
+    async detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack> {
+        const { probe, profile, logger } = context;
+        // NHK recordings carry MP2 and AC-3; the AC-3 track has the cleanest digital silence
+        const audioStream = selectAudioStream(probe, ['ac3', 'eac3']);
+        if (!audioStream) {
+            throw new Error(`No audio stream found in ${context.filePath}`);
+        }
+
+        const { silencePeriods, audioLevels } = await analyzeAudioWindow(
+            context.filePath,
+            `0:${audioStream.index}`,
+            window.offset,
+            window.duration,
+            { threshold: profile.silenceThreshold, minDuration: profile.minSilenceDuration },
+            window.label,
+            logger
+        );
+        if (silencePeriods.length > 0) {
+            logger.info(`[SILENCE] ${window.label} first: ${silencePeriods[0]?.start}ms - ${silencePeriods[0]?.end}ms, last: ${silencePeriods[silencePeriods.length - 1]?.start}ms - ${silencePeriods[silencePeriods.length - 1]?.end}ms`);
+        }
+        if (window.debugDir) {
+            const silenceLines = silencePeriods.map(p => `silence: ${p.start}ms - ${p.end}ms (duration: ${p.end - p.start}ms)`);
+            const audioLines = audioLevels.map(l => `audio: ts=${l.ts.toFixed(3)}: RMS_level=${l.meanDb.toFixed(2)}dB`);
+            await fs.writeFile(path.join(window.debugDir, 'debug_silence.txt'), silenceLines.join('\n'), 'utf8').catch(() => { });
+            await fs.writeFile(path.join(window.debugDir, 'debug_audio_levels.txt'), audioLines.join('\n'), 'utf8').catch(() => { });
+        }
+
+        const frameCount = Math.floor(window.duration * context.frameRate);
+        const scores: number[] = [];
+        const values: (number | null)[] = [];
+        for (let i = 0; i < frameCount; ++i) {
+            const ts = window.offset + i / context.frameRate;
+            scores.push(isFrameSilent(Math.round(ts * 1000), silencePeriods) ? 1 : 0);
+            values.push(getAudioLevelAt(ts, audioLevels));
+        }
+        return {
+            detector: this.name,
+            scores,
+            values,
+            intervals: silencePeriods.map(p => ({ start: p.start / 1000, end: p.end / 1000 })),
+        };
+    }
+}
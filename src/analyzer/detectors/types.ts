@@ -0,0 +1,71 @@
+import { Logger } from '../../logger.js';
+import type { MediaProbe } from '../../mediaProbe.js';
+import type { BoundaryCandidate, ProgramOptions } from '../../types.js';
+import type { ChannelProfile } from '../profiles.js';
+
+/** `full` is a whole-recording scan for internal breaks (see --split). */
+export type BoundaryEdge = 'start' | 'end' | 'full';
+
+/**
+ * A slice of the recording searched for one boundary. Frame `i` of every evidence track
+ * for this window sits at `offset + i / frameRate` seconds, which is the shared timeline
+ * the combiner fuses on.
+ */
+export interface AnalysisWindow {
+    edge: BoundaryEdge;
+    /** Log tag, e.g. `START`. */
+    label: string;
+    /** Absolute start in seconds. */
+    offset: number;
+    /** Length in seconds. */
+    duration: number;
+    /** Absolute time the boundary is expected at (from the EPG), when known. */
+    expected?: number;
+    /** Absolute span of the window before it was widened; only set on widened windows. */
+    initial?: { start: number; end: number };
+    /** Where detectors may write debug artefacts (only set with --keep-debug). */
+    debugDir?: string;
+}
+
+export interface DetectionContext {
+    filePath: string;
+    probe: MediaProbe;
+    profile: ChannelProfile;
+    options: ProgramOptions;
+    logger: Logger;
+    /** Sampling rate of the shared timeline. */
+    frameRate: number;
+}
+
+/**
+ * Per-frame evidence from one detector over one window.
+ */
+export interface EvidenceTrack {
+    detector: string;
+    /** Likelihood (0-1) that each frame lies in a programme break. */
+    scores: number[];
+    /** Optional raw measurement per frame (e.g. similarity, RMS level), for reports and debugging. */
+    values?: (number | null)[];
+    /** Optional per-frame label (e.g. the matched reference image). */
+    labels?: string[];
+    /** Optional periods the detector found, in absolute seconds (e.g. silence), for reports. */
+    intervals?: { start: number; end: number }[];
+}
+
+/**
+ * Everything the combiner saw for one window, kept for reports.
+ */
+export interface AnalysisTimeline {
+    window: AnalysisWindow;
+    frameRate: number;
+    tracks: EvidenceTrack[];
+    fused: number[];
+    /** The chosen cut first, then the alternatives by confidence. */
+    candidates: BoundaryCandidate[];
+}
+
+export interface BoundaryDetector {
+    /** Name used for weights in the channel profile and in evidence tracks. */
+    readonly name: string;
+    detect(window: AnalysisWindow, context: DetectionContext): Promise<EvidenceTrack>;
+}
@@ -0,0 +1,224 @@
+import { spawn } from 'child_process';
+import { Logger } from '../logger.js';
+
+/** Audio is matched at this rate; idents and jingles sit well below 4 kHz. */
+export const FINGERPRINT_SAMPLE_RATE = 8000;
+/** FFT size and hop in samples (64 ms frames every 32 ms). */
+const FFT_SIZE = 512;
+const HOP_SIZE = 256;
+/** Log-spaced bands between these frequencies make up one fingerprint frame. */
+const BAND_COUNT = 32;
+const MIN_FREQUENCY = 100;
+const MAX_FREQUENCY = 3800;
+
+/**
+ * Spectral fingerprint of a stretch of audio: one band-energy vector per hop, each
+ * normalised to zero mean and unit length so frames compare by spectral shape, not loudness.
+ */
+export interface AudioFingerprint {
+    /** Seconds between frames. */
+    frameStep: number;
+    frames: Float32Array[];
+}
+
+export interface FingerprintMatch {
+    /** Seconds from the start of the searched audio to the start of the match. */
+    offset: number;
+    /** Length of the matched clip in seconds. */
+    duration: number;
+    /** Mean cosine similarity of the aligned frames (0-1). */
+    score: number;
+}
+
+/**
+ * Decode mono PCM at {@link FINGERPRINT_SAMPLE_RATE}. `stream` is an ffmpeg map specifier;
+ * `ss`/`duration` limit decoding to a window when given.
+ */
+export function decodePcm(
+    filePath: string,
+    logger: Logger,
+    stream: string = '0:a:0',
+    ss?: number,
+    duration?: number
+): Promise<Float32Array> {
+    const args = [
+        '-hide_banner', '-loglevel', 'error',
+        ...(ss !== undefined ? ['-ss', ss.toString()] : []),
+        ...(duration !== undefined ? ['-t', duration.toString()] : []),
+        '-i', filePath,
+        '-map', stream,
+        '-ac', '1',
+        '-ar', FINGERPRINT_SAMPLE_RATE.toString(),
+        '-f', 'f32le',
+        'pipe:1',
+    ];
+    logger.debug(`[FINGERPRINT] ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        proc.on('close', (code) => {
+            if (code !== 0) {
+                return reject(new Error(`ffmpeg could not decode audio from ${filePath}: ${stderr.trim().slice(-2000)}`));
+            }
+            const data = Buffer.concat(chunks);
+            const samples = new Float32Array(Math.floor(data.length / 4));
+            for (let i = 0; i < samples.length; ++i) samples[i] = data.readFloatLE(i * 4);
+            resolve(samples);
+        });
+        proc.on('error', reject);
+    });
+}
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; ++i) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j]!, re[i]!];
+            [im[i], im[j]] = [im[j]!, im[i]!];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < size / 2; ++k) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b]! * curRe - im[b]! * curIm;
+                const tIm = re[b]! * curIm + im[b]! * curRe;
+                re[b] = re[a]! - tRe;
+                im[b] = im[a]! - tIm;
+                re[a] = re[a]! + tRe;
+                im[a] = im[a]! + tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+}
+
+/**
+ * FFT bin ranges of the log-spaced bands.
+ */
+function bandEdges(): number[] {
+    const binHz = FINGERPRINT_SAMPLE_RATE / FFT_SIZE;
+    const ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+    return Array.from({ length: BAND_COUNT + 1 }, (_, i) =>
+        Math.max(1, Math.round((MIN_FREQUENCY * Math.pow(ratio, i / BAND_COUNT)) / binHz)));
+}
+
+export function fingerprintAudio(samples: Float32Array): AudioFingerprint {
+    const edges = bandEdges();
+    const window = Float64Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+    const frames: Float32Array[] = [];
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    for (let start = 0; start + FFT_SIZE <= samples.length; start += HOP_SIZE) {
+        for (let i = 0; i < FFT_SIZE; ++i) {
+            re[i] = samples[start + i]! * window[i]!;
+            im[i] = 0;
+        }
+        fft(re, im);
+        const bands = new Float32Array(BAND_COUNT);
+        for (let b = 0; b < BAND_COUNT; ++b) {
+            let energy = 0;
+            const hi = Math.max(edges[b]! + 1, edges[b + 1]!);
+            for (let k = edges[b]!; k < hi; ++k) energy += re[k]! * re[k]! + im[k]! * im[k]!;
+            bands[b] = Math.log10(1e-10 + energy / (hi - edges[b]!));
+        }
+        frames.push(normaliseFrame(bands));
+    }
+    return { frameStep: HOP_SIZE / FINGERPRINT_SAMPLE_RATE, frames };
+}
+
+/**
+ * Zero-mean, unit-length copy of a band vector; silence (no variation) becomes all zeros.
+ */
+function normaliseFrame(bands: Float32Array): Float32Array {
+    let mean = 0;
+    for (const v of bands) mean += v;
+    mean /= bands.length;
+    let norm = 0;
+    for (const v of bands) norm += (v - mean) * (v - mean);
+    norm = Math.sqrt(norm);
+    const out = new Float32Array(bands.length);
+    if (norm < 1e-6) return out;
+    for (let i = 0; i < bands.length; ++i) out[i] = (bands[i]! - mean) / norm;
+    return out;
+}
+
+/**
+ * Average every `factor` consecutive frames into one, for comparing long stretches of audio
+ * where 32 ms resolution is more than needed.
+ */
+export function downsampleFingerprint(fingerprint: AudioFingerprint, factor: number): AudioFingerprint {
+    const frames: Float32Array[] = [];
+    for (let start = 0; start + factor <= fingerprint.frames.length; start += factor) {
+        const sum = new Float32Array(BAND_COUNT);
+        for (let k = start; k < start + factor; ++k) {
+            fingerprint.frames[k]!.forEach((v, i) => { sum[i]! += v; });
+        }
+        frames.push(normaliseFrame(sum));
+    }
+    return { frameStep: fingerprint.frameStep * factor, frames };
+}
+
+/**
+ * Frame-to-frame change of a fingerprint. Steady sound (hum, crowd noise, a held chord) has
+ * the same spectral shape everywhere, so long stretches are compared on how it changes instead.
+ */
+export function deltaFingerprint(fingerprint: AudioFingerprint): AudioFingerprint {
+    const frames = fingerprint.frames.slice(1).map((frame, n) => {
+        const previous = fingerprint.frames[n]!;
+        return normaliseFrame(frame.map((v, i) => v - previous[i]!));
+    });
+    return { frameStep: fingerprint.frameStep, frames };
+}
+
+/**
+ * Slide the clip over the haystack and report every alignment whose mean frame similarity
+ * reaches `threshold`, keeping only the best of overlapping alignments.
+ */
+export function findClipMatches(haystack: AudioFingerprint, clip: AudioFingerprint, threshold: number): FingerprintMatch[] {
+    const clipLength = clip.frames.length;
+    if (clipLength === 0 || haystack.frames.length < clipLength) return [];
+    const scores = new Float32Array(haystack.frames.length - clipLength + 1);
+    for (let offset = 0; offset < scores.length; ++offset) {
+        let sum = 0;
+        for (let k = 0; k < clipLength; ++k) {
+            const a = clip.frames[k]!;
+            const b = haystack.frames[offset + k]!;
+            let dot = 0;
+            for (let i = 0; i < a.length; ++i) dot += a[i]! * b[i]!;
+            sum += dot;
+        }
+        scores[offset] = sum / clipLength;
+    }
+
+    const matches: FingerprintMatch[] = [];
+    for (let offset = 0; offset < scores.length; ++offset) {
+        const score = scores[offset]!;
+        if (score < threshold) continue;
+        // Local maximum within one clip length either side
+        let best = true;
+        for (let j = Math.max(0, offset - clipLength + 1); j < Math.min(scores.length, offset + clipLength) && best; ++j) {
+            if (scores[j]! > score || (scores[j] === score && j < offset)) best = false;
+        }
+        if (!best) continue;
+        matches.push({ offset: offset * haystack.frameStep, duration: clipLength * clip.frameStep, score: Math.round(score * 1000) / 1000 });
+    }
+    return matches;
+}
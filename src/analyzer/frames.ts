@@ -1,57 +1,190 @@
 import { Logger } from '../logger.js';
-import { ProgramOptions } from '../types.js';
-import { promises as fs } from 'fs';
 import { spawn } from 'child_process';
-import pLimit from 'p-limit';
+import * as path from 'path';
+import type { LogoMask } from './profiles.js';
 
-export async function extractFramesToBuffers(
+/**
+ * Incrementally reduces a stream of raw 8-bit grayscale frames to per-frame means.
+ * Each frame may be a vertical stack of `bands` equally sized difference images
+ * (one per reference), in which case a mean is produced per band.
+ * Chunks from ffmpeg's stdout do not line up with frame boundaries, so partial
+ * frames are carried over between pushes.
+ */
+export class FrameMeanAccumulator {
+    private bandSize = 0;
+    private pending: Buffer[] = [];
+    private sums: number[];
+    private band = 0;
+    private filled = 0;
+    /** Per frame, the mean of each band. */
+    readonly means: number[][] = [];
+
+    constructor(private readonly bands: number = 1) {
+        this.sums = new Array<number>(bands).fill(0);
+    }
+
+    setFrameSize(width: number, height: number): void {
+        this.bandSize = width * Math.floor(height / this.bands);
+        const queued = this.pending;
+        this.pending = [];
+        for (const chunk of queued) this.push(chunk);
+    }
+
+    get hasFrameSize(): boolean {
+        return this.bandSize > 0;
+    }
+
+    push(chunk: Buffer): void {
+        if (this.bandSize === 0) {
+            // Output dimensions are parsed from stderr, which may arrive after the first frames
+            this.pending.push(chunk);
+            return;
+        }
+        let offset = 0;
+        while (offset < chunk.length) {
+            const take = Math.min(this.bandSize - this.filled, chunk.length - offset);
+            let sum = 0;
+            for (let i = offset; i < offset + take; ++i) sum += chunk[i]!;
+            this.sums[this.band]! += sum;
+            this.filled += take;
+            offset += take;
+            if (this.filled === this.bandSize) {
+                this.filled = 0;
+                this.band++;
+                if (this.band === this.bands) {
+                    this.means.push(this.sums.map(s => computeFrameMean(s, this.bandSize)));
+                    this.sums.fill(0);
+                    this.band = 0;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Normalised mean of an 8-bit grayscale frame, equivalent to ImageMagick's `%[fx:mean]`
+ * on the same frame encoded as a gray PNG. Similarity is `1 - mean`.
+ */
+export function computeFrameMean(sum: number, pixelCount: number): number {
+    if (pixelCount === 0) return 1;
+    return sum / (pixelCount * 255);
+}
+
+/**
+ * Parse the dimensions of the rawvideo output stream from ffmpeg's stderr banner.
+ */
+export function parseRawVideoSize(stderr: string): { width: number; height: number } | null {
+    const outputIdx = stderr.indexOf('Output #0');
+    if (outputIdx === -1) return null;
+    const match = stderr.slice(outputIdx).match(/Video: rawvideo[^\n]*?, (\d+)x(\d+)/);
+    if (!match) return null;
+    return { width: parseInt(match[1] ?? '0', 10), height: parseInt(match[2] ?? '0', 10) };
+}
+
+export interface FrameScores {
+    /** Per frame, the lowest difference mean across all references (similarity is `1 - mean`). */
+    means: number[];
+    /** Per frame, the index of the reference that produced the lowest mean. */
+    referenceIndex: number[];
+}
+
+/**
+ * Build the filter graph that blanks the mask in the video and every reference, differences
+ * the video against each reference and stacks the results vertically into `[diff]`.
+ * Input 0 is the video, inputs 1..n are the references.
+ */
+export function buildDifferenceFilter(mask: LogoMask, referenceCount: number, frameRate: number): string {
+    const box = `drawbox=x=${mask.x}:y=${mask.y}:w=${mask.w}:h=${mask.h}:color=black@1:t=fill`;
+    if (referenceCount === 1) {
+        return `[0:v]${box},extractplanes=y[vid]; ` +
+            `[1:v]${box},format=gray,extractplanes=y[ref]; ` +
+            `[vid][ref]blend=all_mode=difference,fps=${frameRate}[diff]`;
+    }
+    const parts: string[] = [];
+    const vids = Array.from({ length: referenceCount }, (_, i) => `[vid${i}]`);
+    parts.push(`[0:v]${box},extractplanes=y,split=${referenceCount}${vids.join('')}`);
+    for (let i = 0; i < referenceCount; ++i) {
+        parts.push(`[${i + 1}:v]${box},format=gray,extractplanes=y[ref${i}]`);
+        parts.push(`[vid${i}][ref${i}]blend=all_mode=difference,fps=${frameRate}[d${i}]`);
+    }
+    parts.push(`${vids.map((_, i) => `[d${i}]`).join('')}vstack=inputs=${referenceCount}[diff]`);
+    return parts.join('; ');
+}
+
+/**
+ * Run the masked reference-difference filter over a window and score every sampled frame
+ * against all references; the best (lowest-mean) reference wins. Frames are streamed as
+ * rawvideo and reduced in-process, so no per-frame PNG encode or external image tool is involved.
+ *
+ * @param debugDir - When set, the (stacked) difference frames are also written there as PNGs for inspection.
+ */
+export async function extractFrameMeans(
     filePath: string,
-    referenceImage: string,
+    referenceImages: string[],
     ss: number,
     windowSeconds: number,
-    maskArgs: string,
+    mask: LogoMask,
     frameRate: number,
-    logger: Logger
-): Promise<Buffer[]> {
+    logger: Logger,
+    debugDir?: string
+): Promise<FrameScores> {
     const trimTail = (s: string, maxChars: number) => {
         if (s.length <= maxChars) return s;
         const dropped = s.length - maxChars;
         return `… (trimmed ${dropped} chars)\n` + s.slice(-maxChars);
     };
 
+    if (referenceImages.length === 0) {
+        throw new Error('At least one reference image is required');
+    }
+    const maskArgs = buildDifferenceFilter(mask, referenceImages.length, frameRate);
+    const filter = debugDir ? `${maskArgs}; [diff]split[raw][png]` : maskArgs;
     const args = [
+        '-hide_banner',
         '-ss', ss.toString(),
         '-i', filePath,
-        '-i', referenceImage,
+        ...referenceImages.flatMap(ref => ['-i', ref]),
         '-t', windowSeconds.toString(),
-        '-filter_complex', maskArgs,
-        '-map', '[diff]',
-        '-f', 'image2pipe',
-        '-vcodec', 'png',
-        '-q:v', '2',
+        '-filter_complex', filter,
+        '-map', debugDir ? '[raw]' : '[diff]',
+        '-f', 'rawvideo',
+        '-pix_fmt', 'gray',
         'pipe:1',
     ];
-    logger.debug(`[FFMPEG] Extracting frames to memory: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    if (debugDir) {
+        args.push('-map', '[png]', path.join(debugDir, 'frame_%05d.png'));
+    }
+    logger.debug(`[FFMPEG] Streaming frames at ${frameRate} fps: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
     return new Promise((resolve, reject) => {
         const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
-        const chunks: Buffer[] = [];
+        const accumulator = new FrameMeanAccumulator(referenceImages.length);
         let stderr = '';
-        if (proc.stdout) {
-            proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
-        }
-        if (proc.stderr) {
-            proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
-        }
+        proc.stdout.on('data', (chunk: Buffer) => accumulator.push(chunk));
+        proc.stderr.on('data', (chunk: Buffer) => {
+            stderr += chunk.toString();
+            if (!accumulator.hasFrameSize) {
+                const size = parseRawVideoSize(stderr);
+                if (size) accumulator.setFrameSize(size.width, size.height);
+            }
+        });
         proc.on('close', (code) => {
-            if (code === 0) {
-                const all = Buffer.concat(chunks);
-                const frames = splitPngFrames(all);
-                logger.info(`[FFMPEG] Extracted ${frames.length} frames to memory.`);
-                resolve(frames);
+            if (code === 0 && accumulator.hasFrameSize) {
+                const means: number[] = [];
+                const referenceIndex: number[] = [];
+                for (const bandMeans of accumulator.means) {
+                    let best = 0;
+                    for (let i = 1; i < bandMeans.length; ++i) {
+                        if (bandMeans[i]! < bandMeans[best]!) best = i;
+                    }
+                    means.push(bandMeans[best] ?? 1);
+                    referenceIndex.push(best);
+                }
+                logger.info(`[FFMPEG] Analysed ${means.length} frames in memory against ${referenceImages.length} reference(s).`);
+                resolve({ means, referenceIndex });
             } else {
                 const cmd = `ffmpeg ${args.map(a => `'${a}'`).join(' ')}`;
                 const details = [
-                    'Extract frames failed',
+                    code === 0 ? 'Could not determine rawvideo frame size' : 'Extract frames failed',
                     `command: ${cmd}`,
                     `exit: code=${code ?? 'null'}`,
                     stderr.trim().length > 0 ? '--- ffmpeg stderr (tail) ---' : undefined,
@@ -64,73 +197,76 @@ export async function extractFramesToBuffers(
     });
 }
 
-export function splitPngFrames(buffer: Buffer): Buffer[] {
-    const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
-    const indices: number[] = [];
-    let idx = 0;
-    while ((idx = buffer.indexOf(PNG_SIGNATURE, idx)) !== -1) {
-        indices.push(idx);
-        idx += PNG_SIGNATURE.length;
-    }
-    const frames: Buffer[] = [];
-    for (let i = 0; i < indices.length; ++i) {
-        const start = indices[i];
-        const end = i + 1 < indices.length ? indices[i + 1] : buffer.length;
-        frames.push(buffer.slice(start, end));
-    }
-    return frames;
+/**
+ * Build the filter graph that crops the logo region, reduces it and the template to edge maps
+ * and stacks two bands into `[logo]`: the edges both share, and the template's own edges. The
+ * frame's edges are dilated by a pixel to tolerate interlacing and scaling offsets.
+ * Input 0 is the video, input 1 the template.
+ */
+export function buildLogoFilter(mask: LogoMask, frameRate: number): string {
+    return `[0:v]crop=${mask.w}:${mask.h}:${mask.x}:${mask.y},fps=${frameRate},format=gray,edgedetect,dilation,split[e0][e1]; ` +
+        `[1:v]scale=${mask.w}:${mask.h},format=gray,edgedetect,split[t0][t1]; ` +
+        `[e0][t0]blend=all_mode=multiply[hit]; ` +
+        `[e1][t1]blend=all_expr=B[tpl]; ` +
+        `[hit][tpl]vstack=inputs=2[logo]`;
 }
 
-export async function getFrameMeansFromBuffers(
-    frameBuffers: Buffer[],
-    label: string,
-    options: ProgramOptions,
+/**
+ * Measure per-frame presence of the logo template inside the mask region: the share of the
+ * template's edge pixels that are also edges in the frame (0-1).
+ */
+export async function extractLogoPresence(
+    filePath: string,
+    template: string,
+    ss: number,
+    windowSeconds: number,
+    mask: LogoMask,
+    frameRate: number,
     logger: Logger
 ): Promise<number[]> {
-    const means: number[] = [];
-    const debugLines: string[] = [];
-    const keepDebug = options.keepDebug;
-    const parallelism = options.parallelism || 8;
-    const limit = pLimit(parallelism);
-
-    logger.info(`[${label}] Calculating similarity for ${frameBuffers.length} frames (parallelism: ${parallelism})...`);
-
-    const tasks = frameBuffers.map((buf, idx) => limit(async () => {
-        try {
-            const { stdout } = await new Promise<{ stdout?: string }>((resolve, reject) => {
-                let out = '';
-                const proc = spawn('magick', ['-', '-colorspace', 'Gray', '-format', '%[fx:mean]', 'info:'], { stdio: ['pipe', 'pipe', 'ignore'] });
-                proc.stdout.on('data', d => out += d.toString());
-                proc.on('close', code => code === 0 ? resolve({ stdout: out }) : reject(new Error('magick failed')));
-                proc.on('error', reject);
-                proc.stdin.write(buf);
-                proc.stdin.end();
-            });
-            const mean = parseFloat((stdout ?? '').trim());
-            means[idx] = isNaN(mean) ? 1 : mean;
-            debugLines[idx] = `frame_${String(idx).padStart(5, '0')}: mean=${mean.toFixed(4)}, similarity=${((1 - mean) * 100).toFixed(2)}%`;
-        } catch (err) {
-            logger.error(`[${label}] Magick error for frame ${idx}: ${err}`);
-            means[idx] = 1;
-            debugLines[idx] = `frame_${String(idx).padStart(5, '0')}: ERROR`;
-        }
-    }));
-
-    await Promise.all(tasks);
-
-    if (keepDebug) {
-        const debugFile = `debug_means_${label}.txt`;
-        await fs.writeFile(debugFile as string, debugLines.join('\n'), 'utf8');
-        logger.debug(`[${label}] Debug means written to ${debugFile}`);
-    }
-
-    // Optionally log first/last 5
-    if (means.length > 0) {
-        const first5 = means.slice(0, 5).map((m, i) => `frame_${i} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)`).join(', ');
-        const last5 = means.slice(-5).map((m, i) => `frame_${means.length - 5 + i} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)`).join(', ');
-        logger.debug(`[${label}] First 5: [${first5}]`);
-        logger.debug(`[${label}] Last 5: [${last5}]`);
-    }
+    const args = [
+        '-hide_banner',
+        '-ss', ss.toString(),
+        '-i', filePath,
+        '-i', template,
+        '-t', windowSeconds.toString(),
+        '-filter_complex', buildLogoFilter(mask, frameRate),
+        '-map', '[logo]',
+        '-f', 'rawvideo',
+        '-pix_fmt', 'gray',
+        'pipe:1',
+    ];
+    logger.debug(`[FFMPEG] Streaming logo region at ${frameRate} fps: ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    return new Promise((resolve, reject) => {
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        const accumulator = new FrameMeanAccumulator(2);
+        let stderr = '';
+        proc.stdout.on('data', (chunk: Buffer) => accumulator.push(chunk));
+        proc.stderr.on('data', (chunk: Buffer) => {
+            stderr += chunk.toString();
+            if (!accumulator.hasFrameSize) {
+                const size = parseRawVideoSize(stderr);
+                if (size) accumulator.setFrameSize(size.width, size.height);
+            }
+        });
+        proc.on('close', (code) => {
+            if (code === 0 && accumulator.hasFrameSize) {
+                resolve(accumulator.means.map(([hit = 0, edges = 0]) => edges > 0 ? Math.min(1, hit / edges) : 0));
+            } else {
+                reject(new Error(`ffmpeg failed\ncommand: ffmpeg ${args.map(a => `'${a}'`).join(' ')}\n${stderr.trim().slice(-4000)}`));
+            }
+        });
+        proc.on('error', reject);
+    });
+}
 
-    return means;
-} 
\ No newline at end of file
+/**
+ * Log the first and last few similarity values of a window at debug level.
+ */
+export function logFrameMeans(means: number[], label: string, logger: Logger): void {
+    if (means.length === 0) return;
+    const first5 = means.slice(0, 5).map((m, i) => `frame_${i} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)`).join(', ');
+    const last5 = means.slice(-5).map((m, i) => `frame_${Math.max(0, means.length - 5) + i} (mean=${m.toFixed(4)}, sim=${((1 - m) * 100).toFixed(2)}%)`).join(', ');
+    logger.debug(`[${label}] First 5: [${first5}]`);
+    logger.debug(`[${label}] Last 5: [${last5}]`);
+}
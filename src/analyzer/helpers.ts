@@ -1,10 +1,16 @@
+/**
+ * Level of the last chunk starting at or before `ts`. Levels are in time order, so this is a
+ * binary search; the silence detector looks up every frame of a window (or a whole recording).
+ */
 export function getAudioLevelAt(ts: number, audioLevels: { ts: number, meanDb: number }[]): number | null {
-    let last = null;
-    for (const chunk of audioLevels) {
-        if (chunk.ts > ts) break;
-        last = chunk;
+    let lo = 0;
+    let hi = audioLevels.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (audioLevels[mid]!.ts > ts) hi = mid;
+        else lo = mid + 1;
     }
-    return last ? last.meanDb : null;
+    return lo > 0 ? audioLevels[lo - 1]!.meanDb : null;
 }
 
 export function isFrameSilent(
@@ -0,0 +1,106 @@
+import { Logger } from '../logger.js';
+import { decodePcm, deltaFingerprint, downsampleFingerprint, fingerprintAudio, type AudioFingerprint } from './fingerprint.js';
+
+/** Only the opening of each episode is searched for the intro. */
+export const INTRO_SEARCH_SECONDS = 300;
+/** Fingerprint frames are averaged in groups of this many (32 ms -> 256 ms). */
+const DOWNSAMPLE = 8;
+/** Frame similarity that counts as the same audio. */
+const MATCH_THRESHOLD = 0.75;
+/** Frames below the threshold tolerated inside a shared stretch (dialogue over the theme, a glitch). */
+const MAX_GAP_FRAMES = 3;
+/** Shared stretches outside this range are not an intro. */
+const MIN_INTRO_SECONDS = 10;
+const MAX_INTRO_SECONDS = 180;
+/** Earlier episodes an episode is compared against. */
+export const MAX_INTRO_REFERENCES = 3;
+
+export interface SharedSegment {
+    /** Start in the first and second recording, in seconds. */
+    startA: number;
+    startB: number;
+    duration: number;
+    /** Mean similarity of the aligned frames. */
+    score: number;
+}
+
+/**
+ * Coarse fingerprint of how the opening of a recording changes over time.
+ */
+export async function fingerprintOpening(filePath: string, logger: Logger): Promise<AudioFingerprint> {
+    const samples = await decodePcm(filePath, logger, '0:a:0', 0, INTRO_SEARCH_SECONDS);
+    return deltaFingerprint(downsampleFingerprint(fingerprintAudio(samples), DOWNSAMPLE));
+}
+
+/**
+ * Longest stretch of audio the two fingerprints share at any alignment, tolerating short gaps.
+ */
+export function findSharedSegment(a: AudioFingerprint, b: AudioFingerprint): SharedSegment | null {
+    const step = a.frameStep;
+    const minFrames = Math.ceil(MIN_INTRO_SECONDS / step);
+    const maxFrames = Math.floor(MAX_INTRO_SECONDS / step);
+    let best: { i: number; j: number; length: number; score: number } | null = null;
+
+    for (let shift = -(b.frames.length - 1); shift < a.frames.length; ++shift) {
+        const from = Math.max(0, shift);
+        const to = Math.min(a.frames.length, b.frames.length + shift);
+        if (to - from < minFrames) continue;
+        let runStart = -1;
+        let lastHit = -1;
+        let sum = 0;
+        // Similarity of the gap frames since the last hit; they only count once the run continues
+        let gapSum = 0;
+        const close = () => {
+            const length = lastHit - runStart + 1;
+            // Longer shared stretches are recaps or repeats, not an intro
+            if (length >= minFrames && length <= maxFrames && (!best || length > best.length)) {
+                best = { i: runStart, j: runStart - shift, length, score: sum / length };
+            }
+        };
+        for (let i = from; i < to; ++i) {
+            const fa = a.frames[i]!;
+            const fb = b.frames[i - shift]!;
+            let dot = 0;
+            for (let k = 0; k < fa.length; ++k) dot += fa[k]! * fb[k]!;
+            if (dot >= MATCH_THRESHOLD) {
+                if (runStart < 0) {
+                    runStart = i;
+                    sum = 0;
+                    gapSum = 0;
+                }
+                sum += gapSum + dot;
+                gapSum = 0;
+                lastHit = i;
+            } else if (runStart >= 0) {
+                if (i - lastHit > MAX_GAP_FRAMES) {
+                    close();
+                    runStart = -1;
+                } else {
+                    gapSum += dot;
+                }
+            }
+        }
+        if (runStart >= 0) close();
+    }
+
+    if (!best) return null;
+    const found: { i: number; j: number; length: number; score: number } = best;
+    return {
+        startA: found.i * step,
+        startB: found.j * step,
+        duration: Math.round(found.length * step * 1000) / 1000,
+        score: Math.round(found.score * 1000) / 1000,
+    };
+}
+
+/**
+ * The intro of `target`: the longest opening stretch it shares with any of the other episodes.
+ */
+export function findIntro(target: AudioFingerprint, others: AudioFingerprint[]): SharedSegment | null {
+    let best: SharedSegment | null = null;
+    for (const other of others) {
+        const shared = findSharedSegment(target, other);
+        if (shared && (!best || shared.duration > best.duration)) best = shared;
+    }
+    return best;
+}
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import type { ProgramOptions } from '../types.js';
+import { Logger } from '../logger.js';
+
+/**
+ * Region blanked in both the video and the reference before differencing
+ * (normally the channel's logo bug, which may or may not be on screen during black).
+ */
+export interface LogoMask {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/**
+ * Everything that drives a trim decision for one feed/branding.
+ */
+export interface ChannelProfile {
+    name: string;
+    description: string;
+    /** Reference black/ident frames; each frame is scored against all of them and the best match wins. */
+    references: string[];
+    mask: LogoMask;
+    /** Minimum `1 - mean` difference for a frame to count as black. */
+    similarityThreshold: number;
+    /** Consecutive black+silent frames required for a boundary. */
+    consecutiveFrames: number;
+    /** Sampling rate of the similarity scan. */
+    frameRate: number;
+    /** Seconds analysed from the start of the recording. */
+    startWindow: number;
+    /** Seconds analysed before the end of the recording. */
+    endWindow: number;
+    /** Windows without a boundary are doubled up to this many seconds before giving up. */
+    maxWindow: number;
+    /** silencedetect noise floor in dB. */
+    silenceThreshold: number;
+    /** silencedetect minimum duration in seconds. */
+    minSilenceDuration: number;
+    /** Weight of each boundary detector in the combined score; 0 disables a detector. */
+    detectorWeights: Record<string, number>;
+    /** Combined score (0-1) a frame needs to be cut on. */
+    combineThreshold: number;
+    /**
+     * Detector weights of the secondary pass, run on a window where the primary detectors found
+     * no boundary. Tracks the primary pass already has are reused; empty or all 0 disables it.
+     */
+    fallbackWeights: Record<string, number>;
+    /** Minimum ffmpeg scene score (0-1) for a frame to count as a hard cut. */
+    sceneThreshold: number;
+    /** Image of the logo bug inside `mask`, for the `logo-presence` detector. */
+    logoTemplate?: string;
+    /** Share of the template's edges (0-1) a frame must show for the logo to count as present. */
+    logoThreshold: number;
+    /** Reference ident/jingle audio clips for the `audio-ident` detector. */
+    identClips: string[];
+    /** Mean spectral similarity (0-1) a stretch of audio needs to match a clip. */
+    identThreshold: number;
+    /** Maximum Hamming distance (bits of 64) for a frame to match a promo catalogue entry. */
+    hashDistance: number;
+}
+
+export type ChannelProfileOverrides = Partial<Omit<ChannelProfile, 'name'>>;
+
+/**
+ * Shape of the optional JSON config file (see --config).
+ */
+export interface ProfileConfigFile {
+    /** Profile selected when --profile is not given. */
+    profile?: string;
+    /** Additional or replacement profiles; `extends` names the profile to start from. */
+    profiles?: Record<string, ChannelProfileOverrides & { extends?: string }>;
+    /** Values applied on top of the selected profile. */
+    overrides?: ChannelProfileOverrides;
+}
+
+export const DEFAULT_PROFILE = 'nhk-world';
+
+const NHK_WORLD: ChannelProfile = {
+    name: 'nhk-world',
+    description: 'NHK WORLD-JAPAN satellite/IPTV feed',
+    references: ['data/black_logo.png'],
+    mask: { x: 13, y: 60, w: 400, h: 54 },
+    similarityThreshold: 0.92,
+    consecutiveFrames: 2,
+    frameRate: 8,
+    startWindow: 90,
+    endWindow: 210,
+    maxWindow: 600,
+    silenceThreshold: -80,
+    minSilenceDuration: 1.0,
+    // Equal weights with a 0.75 threshold require black AND silence, as the analyzer always has
+    detectorWeights: { 'black-reference': 0.5, 'silence': 0.5 },
+    combineThreshold: 0.75,
+    // Secondary pass for windows with no black run; off unless a profile or --fallback-weights enables it
+    fallbackWeights: {},
+    sceneThreshold: 0.4,
+    logoThreshold: 0.5,
+    identClips: [],
+    identThreshold: 0.6,
+    hashDistance: 6,
+};
+
+/**
+ * Built-in profiles. Premium and BS share the NHK World values until references
+ * have been calibrated for them; override `references` and `mask` via a config file.
+ */
+export const CHANNEL_PROFILES: Record<string, ChannelProfile> = {
+    'nhk-world': NHK_WORLD,
+    'nhk-world-premium': {
+        ...NHK_WORLD,
+        name: 'nhk-world-premium',
+        description: 'NHK WORLD PREMIUM (uncalibrated, NHK World defaults)',
+    },
+    'nhk-bs': {
+        ...NHK_WORLD,
+        name: 'nhk-bs',
+        description: 'NHK BS (uncalibrated, NHK World defaults)',
+    },
+};
+
+/**
+ * Parse a mask given as `x,y,w,h`.
+ */
+export function parseMask(value: string): LogoMask {
+    const parts = value.split(',').map(p => parseInt(p.trim(), 10));
+    if (parts.length !== 4 || parts.some(p => isNaN(p) || p < 0)) {
+        throw new Error(`Invalid mask "${value}". Expected x,y,w,h`);
+    }
+    const [x, y, w, h] = parts as [number, number, number, number];
+    return { x, y, w, h };
+}
+
+/**
+ * Parse detector weights given as `name=weight,name=weight`.
+ */
+export function parseDetectorWeights(value: string): Record<string, number> {
+    const weights: Record<string, number> = {};
+    for (const part of value.split(',')) {
+        const [name, raw] = part.split('=').map(p => p.trim());
+        const weight = parseFloat(raw ?? '');
+        if (!name || isNaN(weight)) {
+            throw new Error(`Invalid detector weight "${part}". Expected name=weight`);
+        }
+        weights[name] = weight;
+    }
+    return weights;
+}
+
+/**
+ * Read the config file. Only a missing file at the default location means "use the built-in
+ * profiles"; a missing `--config` file, any other read error and invalid JSON throw.
+ */
+async function loadProfileConfig(configPath: string, explicit: boolean, logger: Logger): Promise<ProfileConfigFile> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(configPath, 'utf-8');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT' && !explicit) {
+            logger.debug(`[PROFILE] No config file at ${configPath}; using built-in profiles`);
+            return {};
+        }
+        throw new Error(`Could not read config file ${configPath}: ${err instanceof Error ? err.message : err}`);
+    }
+    let config: unknown;
+    try {
+        config = JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`Invalid config file ${configPath}: ${err instanceof Error ? err.message : err}`);
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new Error(`Invalid config file ${configPath}: expected a JSON object`);
+    }
+    return config as ProfileConfigFile;
+}
+
+function lookupProfile(name: string, config: ProfileConfigFile, seen: string[] = []): ChannelProfile {
+    if (seen.includes(name)) {
+        throw new Error(`Profile inheritance loop: ${[...seen, name].join(' -> ')}`);
+    }
+    const custom = config.profiles?.[name];
+    if (custom) {
+        const { extends: parent, ...values } = custom;
+        const base = parent ? lookupProfile(parent, config, [...seen, name]) : CHANNEL_PROFILES[name] ?? NHK_WORLD;
+        return { ...base, description: `${name} (config)`, ...values, name };
+    }
+    const builtIn = CHANNEL_PROFILES[name];
+    if (!builtIn) {
+        const known = [...Object.keys(CHANNEL_PROFILES), ...Object.keys(config.profiles ?? {})];
+        throw new Error(`Unknown channel profile "${name}". Available: ${[...new Set(known)].join(', ')}`);
+    }
+    return builtIn;
+}
+
+/**
+ * Resolve the analysis profile: built-in or config profile, then config overrides,
+ * then individual CLI options. `configExplicit` is set when `--config` was given on the
+ * command line, so its file must exist.
+ */
+export async function resolveChannelProfile(options: ProgramOptions, logger: Logger, configExplicit = false): Promise<ChannelProfile> {
+    const config = options.config ? await loadProfileConfig(options.config, configExplicit, logger) : {};
+    const name = options.profile ?? config.profile ?? DEFAULT_PROFILE;
+    const profile: ChannelProfile = { ...lookupProfile(name, config), ...(config.overrides ?? {}) };
+
+    if (options.reference !== undefined && options.reference.length > 0) profile.references = options.reference;
+    if (options.mask !== undefined) profile.mask = parseMask(options.mask);
+    if (options.logoTemplate !== undefined) profile.logoTemplate = options.logoTemplate;
+    if (options.identClip !== undefined && options.identClip.length > 0) profile.identClips = options.identClip;
+    if (options.similarityThreshold !== undefined) profile.similarityThreshold = options.similarityThreshold;
+    if (options.consecutiveFrames !== undefined) profile.consecutiveFrames = options.consecutiveFrames;
+    if (options.frameRate !== undefined) profile.frameRate = options.frameRate;
+    if (options.startWindow !== undefined) profile.startWindow = options.startWindow;
+    if (options.endWindow !== undefined) profile.endWindow = options.endWindow;
+    if (options.maxWindow !== undefined) profile.maxWindow = options.maxWindow;
+    if (options.silenceThreshold !== undefined) profile.silenceThreshold = options.silenceThreshold;
+    if (options.minSilence !== undefined) profile.minSilenceDuration = options.minSilence;
+    if (options.detectorWeights !== undefined) profile.detectorWeights = parseDetectorWeights(options.detectorWeights);
+    if (options.fallbackWeights !== undefined) profile.fallbackWeights = parseDetectorWeights(options.fallbackWeights);
+
+    if (!Array.isArray(profile.references) || profile.references.length === 0) {
+        throw new Error(`Profile "${profile.name}" has no reference images`);
+    }
+    if (!(profile.similarityThreshold > 0 && profile.similarityThreshold <= 1)) {
+        throw new Error(`Similarity threshold must be in (0, 1], got ${profile.similarityThreshold}`);
+    }
+    if (!(profile.frameRate > 0)) {
+        throw new Error(`Frame rate must be positive, got ${profile.frameRate}`);
+    }
+    const weights = Object.values(profile.detectorWeights ?? {});
+    if (weights.some(w => !(w >= 0)) || !weights.some(w => w > 0)) {
+        throw new Error(`Detector weights must be non-negative with at least one positive, got ${JSON.stringify(profile.detectorWeights)}`);
+    }
+    if (Object.values(profile.fallbackWeights ?? {}).some(w => !(w >= 0))) {
+        throw new Error(`Fallback weights must be non-negative, got ${JSON.stringify(profile.fallbackWeights)}`);
+    }
+    if (!(profile.sceneThreshold > 0 && profile.sceneThreshold <= 1)) {
+        throw new Error(`Scene threshold must be in (0, 1], got ${profile.sceneThreshold}`);
+    }
+    if (!(profile.logoThreshold > 0 && profile.logoThreshold <= 1)) {
+        throw new Error(`Logo threshold must be in (0, 1], got ${profile.logoThreshold}`);
+    }
+    const usesLogo = (profile.detectorWeights['logo-presence'] ?? 0) > 0 || (profile.fallbackWeights['logo-presence'] ?? 0) > 0;
+    if (usesLogo && !profile.logoTemplate) {
+        throw new Error(`Profile "${profile.name}" weights the logo-presence detector but has no logoTemplate`);
+    }
+    if (!(profile.identThreshold > 0 && profile.identThreshold <= 1)) {
+        throw new Error(`Ident threshold must be in (0, 1], got ${profile.identThreshold}`);
+    }
+    const usesIdents = (profile.detectorWeights['audio-ident'] ?? 0) > 0 || (profile.fallbackWeights['audio-ident'] ?? 0) > 0;
+    if (usesIdents && !(Array.isArray(profile.identClips) && profile.identClips.length > 0)) {
+        throw new Error(`Profile "${profile.name}" weights the audio-ident detector but has no identClips`);
+    }
+    if (!(Number.isInteger(profile.hashDistance) && profile.hashDistance >= 0 && profile.hashDistance <= 64)) {
+        throw new Error(`Hash distance must be an integer from 0 to 64, got ${profile.hashDistance}`);
+    }
+    if (!(profile.combineThreshold > 0 && profile.combineThreshold <= 1)) {
+        throw new Error(`Combine threshold must be in (0, 1], got ${profile.combineThreshold}`);
+    }
+    if (!(profile.startWindow > 0 && profile.endWindow > 0 && profile.maxWindow > 0)) {
+        throw new Error(`Window sizes must be positive, got start=${profile.startWindow} end=${profile.endWindow} max=${profile.maxWindow}`);
+    }
+    if (!(profile.consecutiveFrames >= 1)) {
+        throw new Error(`Consecutive frames must be at least 1, got ${profile.consecutiveFrames}`);
+    }
+    return profile;
+}
@@ -0,0 +1,57 @@
+import { Logger } from '../logger.js';
+import type { BoundaryCandidate, ProgramOptions } from '../types.js';
+import { probeMedia } from '../mediaProbe.js';
+import { extractFrameMeans } from './frames.js';
+
+/** Seconds decoded on each side of the coarse black run, so its true edges fall inside the window. */
+const REFINE_MARGIN = 0.5;
+
+/**
+ * Re-decode the black run around a coarse cut at the native frame rate and place the cut on
+ * its exact edge: the last black frame before the programme at the start, and just after the
+ * first black frame following it at the end. One black frame is kept on each side, so no
+ * programme frame is lost to timestamp rounding.
+ *
+ * Returns null when the recording has no video stream or no black frame is found near the cut
+ * (e.g. a silence-only boundary); the coarse cut should be used then.
+ */
+export async function refineCut(
+    filePath: string,
+    candidate: BoundaryCandidate,
+    edge: 'start' | 'end',
+    options: ProgramOptions,
+    logger: Logger
+): Promise<number | null> {
+    const profile = options.analysisProfile;
+    const probe = await probeMedia(filePath, logger);
+    const fps = probe.video?.frameRate ?? 0;
+    if (!(fps > 0)) return null;
+
+    const margin = REFINE_MARGIN + 1 / profile.frameRate;
+    const lo = Math.max(0, candidate.runStart - margin);
+    const hi = Math.min(probe.duration, candidate.runEnd + margin);
+    const label = edge === 'start' ? 'REFINE START' : 'REFINE END';
+    const { means } = await extractFrameMeans(filePath, profile.references, lo, hi - lo, profile.mask, fps, logger);
+    const black = means.map(mean => 1 - mean >= profile.similarityThreshold);
+
+    // Grow the black run from the frame nearest the coarse cut
+    const coarseIdx = Math.min(black.length - 1, Math.max(0, Math.round((candidate.time - lo) * fps)));
+    let seed = -1;
+    for (let d = 0; d < black.length && seed < 0; ++d) {
+        if (black[coarseIdx - d]) seed = coarseIdx - d;
+        else if (black[coarseIdx + d]) seed = coarseIdx + d;
+    }
+    if (seed < 0) {
+        logger.warning(`[${label}] No black frame near ${candidate.time.toFixed(2)}s at ${fps.toFixed(2)} fps; keeping the coarse cut`);
+        return null;
+    }
+    let first = seed;
+    let last = seed;
+    while (first > 0 && black[first - 1]) first--;
+    while (last + 1 < black.length && black[last + 1]) last++;
+
+    const cut = edge === 'start' ? lo + last / fps : lo + (first + 1) / fps;
+    const rounded = Math.round(cut * 1000) / 1000;
+    logger.info(`[${label}] Black frames ${(lo + first / fps).toFixed(3)}s–${(lo + last / fps).toFixed(3)}s at ${fps.toFixed(2)} fps; cut moved from ${candidate.time.toFixed(3)}s to ${rounded.toFixed(3)}s`);
+    return rounded;
+}
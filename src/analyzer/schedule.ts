@@ -0,0 +1,33 @@
+import type { NhkEpgEntry } from '../metadata/types.js';
+
+export interface ScheduleBoundaries {
+    /** Seconds from the start of the recording. */
+    programStart: number;
+    programEnd: number;
+}
+
+/**
+ * Expected programme boundaries from the EPG slot, relative to the recording start.
+ * Returns null when the slot cannot be parsed or does not overlap the recording.
+ */
+export function expectedBoundaries(recordingStartUTC: Date, entry: NhkEpgEntry, duration: number): ScheduleBoundaries | null {
+    const slotStart = new Date(entry.startTime).getTime();
+    const slotEnd = new Date(entry.endTime).getTime();
+    if (isNaN(slotStart) || isNaN(slotEnd) || slotEnd <= slotStart) return null;
+    const programStart = (slotStart - recordingStartUTC.getTime()) / 1000;
+    const programEnd = (slotEnd - recordingStartUTC.getTime()) / 1000;
+    if (programEnd <= 0 || programStart >= duration) return null;
+    return { programStart, programEnd };
+}
+
+/**
+ * Trim points from the expected boundaries, widened by `padding` seconds on each side so
+ * schedule drift cuts into the surrounding breaks rather than the programme, and
+ * clamped to the recording.
+ */
+export function padScheduleBoundaries(expected: ScheduleBoundaries, duration: number, padding: number): ScheduleBoundaries {
+    return {
+        programStart: Math.max(0, expected.programStart - padding),
+        programEnd: Math.min(duration, expected.programEnd + padding),
+    };
+}
@@ -0,0 +1,114 @@
+import type { BoundaryCandidate, TrimSource } from '../types.js';
+import type { NhkEpgEntry } from '../metadata/types.js';
+import { padScheduleBoundaries, type ScheduleBoundaries } from './schedule.js';
+
+/** Seconds a detected break may lie from a scheduled boundary and still be snapped to it. */
+const SNAP_TOLERANCE = 120;
+/** Segments between breaks shorter than this are fillers/promos, not programmes. */
+const MIN_PROGRAMME_SECONDS = 180;
+
+/**
+ * An EPG slot inside the recording, with its boundaries relative to the recording start.
+ */
+export interface ScheduleSlot {
+    entry: NhkEpgEntry;
+    expected: ScheduleBoundaries;
+}
+
+export interface ProgrammeSegment {
+    /** Seconds from the start of the recording. */
+    start: number;
+    end: number;
+    /** Matched EPG slot, when the recording's schedule is known. */
+    entry?: NhkEpgEntry;
+    /** Lower of the two boundary confidences; 0 when either side is schedule-derived. */
+    confidence: number;
+    source: TrimSource;
+    /** Breaks the segment was snapped to, for refining the cuts. */
+    startBreak?: BoundaryCandidate;
+    endBreak?: BoundaryCandidate;
+}
+
+export interface SplitPlan {
+    segments: ProgrammeSegment[];
+    /** EPG slots for which no boundaries could be placed. */
+    unmatched: NhkEpgEntry[];
+}
+
+export interface SplitOptions {
+    /** Fill boundaries without a nearby break from the EPG slot. */
+    scheduleFallback: boolean;
+    /** Seconds kept on each side of a schedule-derived boundary. */
+    schedulePadding: number;
+}
+
+function nearestBreak(breaks: BoundaryCandidate[], time: number): BoundaryCandidate | undefined {
+    let best: BoundaryCandidate | undefined;
+    for (const candidate of breaks) {
+        const distance = Math.abs(candidate.time - time);
+        if (distance <= SNAP_TOLERANCE && (!best || distance < Math.abs(best.time - time))) best = candidate;
+    }
+    return best;
+}
+
+/**
+ * Plan the programmes of a multi-programme recording. With EPG slots, each slot's start and
+ * end are snapped to the nearest detected break; without them, every stretch between two
+ * consecutive breaks that is long enough to be a programme becomes a segment.
+ *
+ * @param breaks - Valid break candidates of the whole recording, in time order.
+ */
+export function planProgrammeSegments(
+    breaks: BoundaryCandidate[],
+    slots: ScheduleSlot[],
+    duration: number,
+    options: SplitOptions
+): SplitPlan {
+    if (slots.length === 0) {
+        const segments: ProgrammeSegment[] = [];
+        for (let i = 0; i + 1 < breaks.length; ++i) {
+            const from = breaks[i]!;
+            const to = breaks[i + 1]!;
+            if (to.time - from.time < MIN_PROGRAMME_SECONDS) continue;
+            segments.push({
+                start: from.time,
+                end: to.time,
+                confidence: Math.min(from.confidence, to.confidence),
+                source: 'analysis',
+                startBreak: from,
+                endBreak: to,
+            });
+        }
+        return { segments, unmatched: [] };
+    }
+
+    const segments: ProgrammeSegment[] = [];
+    const unmatched: NhkEpgEntry[] = [];
+    for (const slot of slots) {
+        const startBreak = nearestBreak(breaks, slot.expected.programStart);
+        const endBreak = nearestBreak(breaks, slot.expected.programEnd);
+        if ((!startBreak || !endBreak) && !options.scheduleFallback) {
+            unmatched.push(slot.entry);
+            continue;
+        }
+        const padded = padScheduleBoundaries(slot.expected, duration, options.schedulePadding);
+        const start = startBreak ? startBreak.time : padded.programStart;
+        const end = endBreak ? endBreak.time : padded.programEnd;
+        if (end - start < MIN_PROGRAMME_SECONDS / 2) {
+            unmatched.push(slot.entry);
+            continue;
+        }
+        const fromSchedule = !startBreak || !endBreak;
+        const segment: ProgrammeSegment = {
+            start,
+            end,
+            entry: slot.entry,
+            confidence: fromSchedule ? 0 : Math.min(startBreak.confidence, endBreak.confidence),
+            source: fromSchedule ? 'schedule' : 'analysis',
+        };
+        if (startBreak) segment.startBreak = startBreak;
+        if (endBreak) segment.endBreak = endBreak;
+        segments.push(segment);
+    }
+    return { segments, unmatched };
+}
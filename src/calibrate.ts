@@ -0,0 +1,310 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { spawn } from 'child_process';
+import { Logger } from './logger.js';
+import { probeMedia } from './mediaProbe.js';
+import { formatTime, parseTimestamp } from './utils.js';
+import { CHANNEL_PROFILES, type LogoMask, type ProfileConfigFile } from './analyzer/profiles.js';
+
+export interface CalibrateOptions {
+    file: string;
+    /** Timestamp (seconds or HH:MM:SS[.ms]) of a black/ident frame. */
+    at: string;
+    /** Seconds sampled, centred on `at`. */
+    duration: number;
+    frameRate: number;
+    /** Name of the profile written to the config file. */
+    name: string;
+    /** Profile the calibrated one extends. */
+    baseProfile: string;
+    /** Where to write the reference PNG (default data/<name>.png). */
+    referenceOut?: string;
+    config: string;
+    /** Maximum mean luma (0-1) for a frame to be treated as a black/ident candidate. */
+    darkThreshold: number;
+    verbosity: 'quiet' | 'normal' | 'verbose';
+    quiet: boolean;
+}
+
+/** Luma above which a pixel in a dark frame is treated as part of a logo. */
+const LOGO_LUMA = 64;
+/** Padding added around the detected logo bounding box. */
+const MASK_PADDING = 6;
+
+/**
+ * Decode a window of the video as full-resolution 8-bit luma frames.
+ */
+function readGrayFrames(
+    filePath: string,
+    ss: number,
+    duration: number,
+    frameRate: number,
+    width: number,
+    height: number,
+    logger: Logger
+): Promise<Buffer[]> {
+    const args = [
+        '-hide_banner',
+        '-ss', ss.toString(),
+        '-i', filePath,
+        '-t', duration.toString(),
+        '-map', '0:v:0',
+        '-vf', `fps=${frameRate},format=gray`,
+        '-f', 'rawvideo',
+        '-pix_fmt', 'gray',
+        'pipe:1',
+    ];
+    logger.debug(`[CALIBRATE] ffmpeg ${args.map(a => `'${a}'`).join(' ')}`);
+    const frameSize = width * height;
+    return new Promise((resolve, reject) => {
+        const frames: Buffer[] = [];
+        let current = Buffer.alloc(frameSize);
+        let filled = 0;
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        proc.stdout.on('data', (chunk: Buffer) => {
+            let offset = 0;
+            while (offset < chunk.length) {
+                const take = Math.min(frameSize - filled, chunk.length - offset);
+                chunk.copy(current, filled, offset, offset + take);
+                filled += take;
+                offset += take;
+                if (filled === frameSize) {
+                    frames.push(current);
+                    current = Buffer.alloc(frameSize);
+                    filled = 0;
+                }
+            }
+        });
+        proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        proc.on('close', (code) => {
+            if (code === 0) return resolve(frames);
+            reject(new Error(`ffmpeg failed\nCalibration frame extraction failed (exit ${code})\n${stderr.slice(-4000)}`));
+        });
+        proc.on('error', reject);
+    });
+}
+
+function writeGrayPng(outPath: string, pixels: Buffer, width: number, height: number): Promise<void> {
+    const args = [
+        '-hide_banner', '-loglevel', 'error',
+        '-f', 'rawvideo', '-pix_fmt', 'gray', '-s', `${width}x${height}`,
+        '-i', 'pipe:0',
+        '-frames:v', '1',
+        outPath, '-y',
+    ];
+    return new Promise((resolve, reject) => {
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+        proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        proc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`ffmpeg failed writing ${outPath}: ${stderr.trim()}`)));
+        proc.on('error', reject);
+        proc.stdin.end(pixels);
+    });
+}
+
+function frameLuma(frame: Buffer): number {
+    let sum = 0;
+    for (let i = 0; i < frame.length; ++i) sum += frame[i]!;
+    return sum / (frame.length * 255);
+}
+
+/**
+ * Per-pixel median of the given frames.
+ */
+function medianImage(frames: Buffer[], frameSize: number): Buffer {
+    const out = Buffer.alloc(frameSize);
+    const column = new Uint8Array(frames.length);
+    const mid = Math.floor(frames.length / 2);
+    for (let p = 0; p < frameSize; ++p) {
+        for (let k = 0; k < frames.length; ++k) column[k] = frames[k]![p]!;
+        column.sort();
+        out[p] = column[mid]!;
+    }
+    return out;
+}
+
+/**
+ * Bounding box of logo pixels in the top quarter of the frame, where NHK's logo bug sits.
+ * Uses the per-pixel maximum over the candidates, so a bug that is only present on some
+ * black frames is still covered.
+ */
+function detectLogoMask(frames: Buffer[], width: number, height: number): LogoMask | null {
+    const searchHeight = Math.floor(height / 4);
+    let minX = width, minY = searchHeight, maxX = -1, maxY = -1;
+    for (let y = 0; y < searchHeight; ++y) {
+        for (let x = 0; x < width; ++x) {
+            const p = y * width + x;
+            let max = 0;
+            for (const frame of frames) {
+                if (frame[p]! > max) max = frame[p]!;
+            }
+            if (max > LOGO_LUMA) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    if (maxX < 0) return null;
+    const x = Math.max(0, minX - MASK_PADDING);
+    const y = Math.max(0, minY - MASK_PADDING);
+    return {
+        x,
+        y,
+        w: Math.min(width, maxX + MASK_PADDING + 1) - x,
+        h: Math.min(height, maxY + MASK_PADDING + 1) - y,
+    };
+}
+
+/**
+ * Similarity (`1 - mean`) of a frame against the reference with the mask blanked in both,
+ * matching what the analyzer's ffmpeg difference filter computes.
+ */
+function maskedSimilarity(frame: Buffer, reference: Buffer, width: number, mask: LogoMask): number {
+    let sum = 0;
+    for (let p = 0; p < frame.length; ++p) {
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x >= mask.x && x < mask.x + mask.w && y >= mask.y && y < mask.y + mask.h) continue;
+        sum += Math.abs(frame[p]! - reference[p]!);
+    }
+    return 1 - sum / (frame.length * 255);
+}
+
+function percentile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return NaN;
+    const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+    return sorted[idx]!;
+}
+
+/**
+ * Build a reference image and logo mask from black/ident frames around `--at`, report the
+ * similarity distribution and write a ready-to-use channel profile into the config file.
+ */
+export async function runCalibration(opts: CalibrateOptions): Promise<void> {
+    const logger = new Logger({ verbosity: opts.verbosity, quiet: opts.quiet });
+    const base = CHANNEL_PROFILES[opts.baseProfile];
+    if (!base) {
+        throw new Error(`Unknown base profile "${opts.baseProfile}". Available: ${Object.keys(CHANNEL_PROFILES).join(', ')}`);
+    }
+
+    const at = parseTimestamp(opts.at);
+    const probe = await probeMedia(opts.file, logger);
+    const video = probe.video;
+    if (!video || video.width === 0 || video.height === 0) {
+        throw new Error(`No video stream found in ${opts.file}`);
+    }
+    const ss = Math.max(0, Math.min(at - opts.duration / 2, probe.duration - opts.duration));
+    const { width, height } = video;
+
+    logger.section('Calibration', () => {
+        logger.info(`File: ${opts.file} (${width}x${height})`);
+        logger.info(`Sampling ${opts.duration}s at ${opts.frameRate} fps from ${formatTime(ss)}`);
+    });
+
+    const frames = await readGrayFrames(opts.file, ss, opts.duration, opts.frameRate, width, height, logger);
+    if (frames.length === 0) {
+        throw new Error('No frames decoded; check --at and --duration');
+    }
+    const lumas = frames.map(frameLuma);
+    const candidates = frames.filter((_, i) => lumas[i]! <= opts.darkThreshold);
+    logger.info(`[CALIBRATE] ${candidates.length} of ${frames.length} frames are dark enough (luma <= ${opts.darkThreshold}) to be black/ident candidates`);
+    if (candidates.length === 0) {
+        const darkest = Math.min(...lumas);
+        throw new Error(`No black/ident frames near ${opts.at} (darkest luma ${darkest.toFixed(3)}). Try another --at or raise --dark-threshold`);
+    }
+
+    logger.progress('[CALIBRATE] Building median reference image…');
+    const reference = medianImage(candidates, width * height);
+    logger.progressStop();
+
+    let mask = detectLogoMask(candidates, width, height);
+    if (mask) {
+        logger.success(`[CALIBRATE] Detected logo mask: x=${mask.x}, y=${mask.y}, w=${mask.w}, h=${mask.h}`);
+    } else {
+        mask = base.mask;
+        logger.warning(`[CALIBRATE] No logo found in the top of the frame; keeping ${base.name} mask ${mask.x},${mask.y},${mask.w},${mask.h}`);
+    }
+
+    // Similarity of every sampled frame against the new reference, split by candidate status
+    const darkSims: number[] = [];
+    const otherSims: number[] = [];
+    frames.forEach((frame, i) => {
+        const sim = maskedSimilarity(frame, reference, width, mask!);
+        (lumas[i]! <= opts.darkThreshold ? darkSims : otherSims).push(sim);
+    });
+    darkSims.sort((a, b) => a - b);
+    otherSims.sort((a, b) => a - b);
+
+    const fmt = (v: number) => isNaN(v) ? 'N/A' : `${(v * 100).toFixed(2)}%`;
+    logger.table([
+        ['Black/ident', darkSims.length.toString(), fmt(darkSims[0] ?? NaN), fmt(percentile(darkSims, 0.1)), fmt(percentile(darkSims, 0.5)), fmt(darkSims[darkSims.length - 1] ?? NaN)],
+        ['Other', otherSims.length.toString(), fmt(otherSims[0] ?? NaN), fmt(percentile(otherSims, 0.1)), fmt(percentile(otherSims, 0.5)), fmt(otherSims[otherSims.length - 1] ?? NaN)],
+    ], ['Frames', 'Count', 'Min', 'P10', 'Median', 'Max'], 'Similarity Distribution');
+
+    const buckets = new Map<string, [number, number]>();
+    for (let b = 80; b < 100; b += 2) buckets.set(`${b}-${b + 2}%`, [0, 0]);
+    const bucketOf = (sim: number) => {
+        const b = Math.min(98, Math.max(80, Math.floor(sim * 50) * 2));
+        return `${b}-${b + 2}%`;
+    };
+    darkSims.forEach(s => buckets.get(bucketOf(s))![0]++);
+    otherSims.forEach(s => buckets.get(bucketOf(s))![1]++);
+    logger.table(
+        [...buckets.entries()].map(([range, [dark, other]]) => [range, dark.toString(), other.toString()]),
+        ['Similarity', 'Black/ident', 'Other'],
+        'Histogram (values below 80% counted in the first bucket)'
+    );
+
+    // Threshold between the worst black frame and the best non-black frame, when they separate
+    const darkLow = percentile(darkSims, 0.1);
+    const otherHigh = otherSims.length > 0 ? otherSims[otherSims.length - 1]! : NaN;
+    let threshold: number;
+    if (!isNaN(otherHigh) && otherHigh < darkLow) {
+        threshold = (darkLow + otherHigh) / 2;
+    } else {
+        threshold = Math.max(0.5, darkLow - 0.02);
+        if (!isNaN(otherHigh)) {
+            logger.warning(`[CALIBRATE] Black and non-black frames overlap (best non-black ${fmt(otherHigh)}); review the distribution before trusting the threshold`);
+        }
+    }
+    threshold = Math.round(threshold * 1000) / 1000;
+    logger.success(`[CALIBRATE] Suggested similarity threshold: ${threshold}`);
+
+    const referenceOut = opts.referenceOut ?? path.join('data', `${opts.name}.png`);
+    await fs.mkdir(path.dirname(referenceOut) || '.', { recursive: true });
+    await writeGrayPng(referenceOut, reference, width, height);
+    logger.success(`[CALIBRATE] Reference image written: ${referenceOut}`);
+
+    // Only a missing file is a new config; anything else would be overwritten with just this profile
+    let config: ProfileConfigFile = {};
+    let raw: string | undefined;
+    try {
+        raw = await fs.readFile(opts.config, 'utf-8');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Could not read config ${opts.config}: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+    if (raw !== undefined) {
+        try {
+            config = JSON.parse(raw) as ProfileConfigFile;
+        } catch (err) {
+            throw new Error(`Invalid config ${opts.config}: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+    config.profiles = {
+        ...(config.profiles ?? {}),
+        [opts.name]: {
+            extends: base.name,
+            description: `Calibrated from ${path.basename(opts.file)} at ${opts.at}`,
+            references: [referenceOut],
+            mask,
+            similarityThreshold: threshold,
+        },
+    };
+    await fs.writeFile(opts.config, JSON.stringify(config, null, 4) + '\n', 'utf-8');
+    logger.success(`[CALIBRATE] Profile "${opts.name}" written to ${opts.config}. Use it with --profile ${opts.name}`);
+}
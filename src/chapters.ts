@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { spawn } from 'child_process';
+import { Logger } from './logger.js';
+import { formatCommand } from './utils.js';
+
+export interface Chapter {
+    title: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Chapters in FFmpeg's FFMETADATA format, in milliseconds.
+ */
+export function buildFfmetadata(chapters: Chapter[]): string {
+    const escape = (text: string) => text.replace(/[=;#\\\n]/g, c => `\\${c}`);
+    const lines = [';FFMETADATA1'];
+    for (const chapter of chapters) {
+        lines.push(
+            '[CHAPTER]',
+            'TIMEBASE=1/1000',
+            `START=${Math.round(chapter.start * 1000)}`,
+            `END=${Math.round(chapter.end * 1000)}`,
+            `title=${escape(chapter.title)}`,
+        );
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Prologue/Intro/Programme chapters around an intro. A prologue or programme shorter than a
+ * second is folded into the intro.
+ */
+export function introChapters(introStart: number, introEnd: number, duration: number): Chapter[] {
+    if (introStart < 1) introStart = 0;
+    if (duration - introEnd < 1) introEnd = duration;
+    return [
+        { title: 'Prologue', start: 0, end: introStart },
+        { title: 'Intro', start: introStart, end: introEnd },
+        { title: 'Programme', start: introEnd, end: duration },
+    ].filter(c => c.end - c.start >= 1);
+}
+
+/**
+ * Stream-copy the video and audio of `inputFile` into `outputFile` (MKV or MP4) with these chapters.
+ */
+export async function remuxWithChapters(inputFile: string, outputFile: string, chapters: Chapter[], logger: Logger): Promise<void> {
+    const parsed = path.parse(outputFile);
+    const metadataFile = path.join(parsed.dir, `.${parsed.name}.ffmetadata`);
+    await fs.writeFile(metadataFile, buildFfmetadata(chapters), 'utf8');
+    const args = [
+        '-hide_banner', '-loglevel', 'error',
+        '-i', inputFile,
+        '-i', metadataFile,
+        '-map', '0:v',
+        '-map', '0:a?',
+        '-map_metadata', '0',
+        '-map_chapters', '1',
+        '-c', 'copy',
+        outputFile, '-y',
+    ];
+    logger.debug(`[CHAPTERS] ${formatCommand('ffmpeg', args)}`);
+    try {
+        await new Promise<void>((resolve, reject) => {
+            let stderr = '';
+            const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+            proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+            proc.on('close', (code) => {
+                if (code === 0) return resolve();
+                reject(new Error(`ffmpeg failed\ncommand: ${formatCommand('ffmpeg', args)}\n${stderr.trim().slice(-4000)}`));
+            });
+            proc.on('error', reject);
+        });
+    } finally {
+        await fs.rm(metadataFile, { force: true });
+    }
+}
+
+/**
+ * Write chapters into an MKV or MP4 by remuxing it in place. MPEG-TS has no chapters, so a
+ * `.ts` output gets a `<name>.chapters.txt` FFMETADATA file next to it instead (apply it with
+ * `-i <name>.chapters.txt -map_chapters 1` when remuxing). Returns the file written.
+ */
+export async function writeChapters(outputFile: string, chapters: Chapter[], logger: Logger): Promise<string> {
+    const parsed = path.parse(outputFile);
+    if (parsed.ext.toLowerCase() === '.ts') {
+        const sidecar = path.join(parsed.dir, `${parsed.name}.chapters.txt`);
+        await fs.writeFile(sidecar, buildFfmetadata(chapters), 'utf8');
+        logger.info(`[CHAPTERS] MPEG-TS cannot hold chapters; wrote ${path.basename(sidecar)}`);
+        return sidecar;
+    }
+
+    const tmpFile = path.join(parsed.dir, `.${parsed.name}.chapters${parsed.ext}`);
+    try {
+        await remuxWithChapters(outputFile, tmpFile, chapters, logger);
+        await fs.rename(tmpFile, outputFile);
+    } finally {
+        await fs.rm(tmpFile, { force: true });
+    }
+    logger.info(`[CHAPTERS] Wrote ${chapters.map(c => c.title).join(', ')} chapters into ${path.basename(outputFile)}`);
+    return outputFile;
+}
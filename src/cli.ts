@@ -4,37 +4,75 @@ import { program } from 'commander';
 import { promises as fs } from 'fs';
 import { checkDependencies } from './utils.js';
 import { TVHeadEndTrimmer } from './trimmer.js';
+import { runCalibration, CalibrateOptions } from './calibrate.js';
+import { runCatalogueList, runCatalogueTag, type CatalogueListOptions, type CatalogueTagOptions } from './tagging.js';
 import { ProgramOptions } from './types.js';
+import { CUT_MODES } from './cutPlan.js';
+import { MARKER_FORMATS } from './markers.js';
 import { Logger } from './logger.js';
+import { resolveChannelProfile } from './analyzer/profiles.js';
 import { colors } from './ui/styles.js';
 import { printAppChromeFooter, printAppChromeHeader } from './ui/chrome.js';
 
 program
     .name('nhk-ts')
     .description('NHK TVHeadEnd Recording Tool.\n\n'
-        + 'Performance: Use --parallelism <n> to control the number of frames analyzed in parallel (default: 12). Higher values use more CPU/RAM but are faster.')
+        + 'Performance: Use --parallelism <n> to control the number of ffmpeg analysis windows decoded in parallel (default: 12).')
     .version(JSON.parse(await fs.readFile(new URL('../package.json', import.meta.url), 'utf-8')).version)
+    // Root options must precede a subcommand so e.g. `calibrate --file` reaches the subcommand
+    .enablePositionalOptions()
     .option('-i, --input <path>', 'Input directory path', '.')
     .option('-f, --file <path>', 'Single file to process')
     .option('-o, --output <path>', 'Output directory path (files will be saved here)', './output')
     .option('--min-black <seconds>', 'Minimum black duration', parseFloat, 0.05)
     .option('--pix-threshold <threshold>', 'Pixel threshold for black detection', parseFloat, 0.1)
     .option('--test', 'Test mode - analyze only, no trimming', false)
-    .option('--reference <path>', 'Reference black/logo image for difference', 'data/black_logo.png')
+    .option('--profile <name>', 'Channel profile: nhk-world, nhk-world-premium, nhk-bs or one from the config file (default: nhk-world)')
+    .option('--config <path>', 'JSON config file with channel profiles and overrides', `${process.cwd()}/nhk-ts.config.json`)
+    .option('--reference <path>', 'Reference black/logo image for difference; repeat for several eras (overrides profile)', (value: string, previous?: string[]) => [...(previous ?? []), value])
+    .option('--mask <x,y,w,h>', 'Logo mask region blanked before differencing (overrides profile)')
+    .option('--ident-clip <path>', 'Reference ident/jingle audio clip for the audio-ident detector; repeat for several (overrides profile)', (value: string, previous?: string[]) => [...(previous ?? []), value])
+    .option('--logo-template <path>', 'Image of the logo bug inside the mask region, for the logo-presence detector (overrides profile)')
+    .option('--similarity-threshold <n>', 'Minimum similarity (0-1) for a frame to count as black (overrides profile)', parseFloat)
+    .option('--consecutive-frames <n>', 'Consecutive black+silent frames required for a boundary (overrides profile)', parseInt)
+    .option('--frame-rate <fps>', 'Sampling rate of the similarity scan (overrides profile)', parseFloat)
+    .option('--silence-threshold <dB>', 'silencedetect noise floor in dB (overrides profile)', parseFloat)
+    .option('--min-silence <seconds>', 'silencedetect minimum duration (overrides profile)', parseFloat)
+    .option('--detector-weights <list>', 'Boundary detector weights as name=weight,... e.g. black-reference=0.5,silence=0.5 (overrides profile)')
+    .option('--fallback-weights <list>', 'Secondary detector weights used where no black run is found, e.g. scene-change=1; off unless set (overrides profile)')
     .option('--keep-debug', 'Keep debug images and temp directories', false)
-    .option('--start-window <seconds>', 'Start window duration in seconds', parseFloat, 90)
-    .option('--end-window <seconds>', 'End window duration in seconds', parseFloat, 210)
+    .option('--start-window <seconds>', 'Start window duration in seconds (overrides profile)', parseFloat)
+    .option('--end-window <seconds>', 'End window duration in seconds (overrides profile)', parseFloat)
+    .option('--max-window <seconds>', 'Windows without a boundary are doubled up to this size (overrides profile)', parseFloat)
+    .option('--no-refine', 'Skip re-decoding each cut at the native frame rate (cuts stay on the coarse --frame-rate scan)')
+    .option('--reanalyze', 'Ignore analysis results cached in the history DB and analyse again', false)
+    .option('--report <dir>', 'Write a JSON analysis report per recording (frame timeline, silences, candidates, cuts, parameters) to this directory')
+    .option('--report-csv', 'With --report, also export each frame timeline as CSV', false)
+    .option('--report-html', 'With --report, also write an offline HTML timeline with thumbnails around each cut', false)
+    .option('--preview', 'Write a 10-second preview clip and a contact sheet around each cut (next to the output unless --preview-dir is given)', false)
+    .option('--preview-dir <dir>', 'Review folder for --preview files')
+    .option('--review', 'Review each trim on an interactive screen: nudge cuts, pick other candidates, view frames, accept or skip (remembered in the history DB)', false)
+    .option('--review-viewer <command>', 'Image viewer for frames during --review when the terminal has no kitty graphics', process.env.NHK_TS_VIEWER)
+    .option('--split', 'Split recordings holding several back-to-back programmes into one output per programme (scans the whole file)', false)
+    .option('--markers <formats>', 'Keep recordings intact and write the boundaries as markers instead: edl (Kodi/MPlayer), comskip and/or chapters (MKV copy in the output directory), comma-separated', (value: string) => value.split(',').map(f => f.trim()).filter(Boolean), [])
+    .option('--intro-chapters', 'Find the intro each episode shares with earlier outputs of its series (from the history DB) and write Intro chapters', false)
+    .option('--catalogue <path>', 'Perceptual-hash catalogue of promos, idents and programme frames; matching frames constrain the cuts', `${process.cwd()}/nhk-ts.catalogue.json`)
+    .option('--epg-windows', 'Centre the analysis windows on the programme boundaries expected from the NFO start time and NHK EPG', false)
     .option('--quiet', 'Suppress all output except errors', false)
     .option('--verbosity <level>', 'Verbosity level: quiet, normal, verbose', 'normal')
     .option('-y, --yes', 'Automatically confirm trim operation', false)
-    .option('--parallelism <n>', 'Number of frames to process in parallel', parseInt, 12)
+    .option('--min-confidence <n>', 'Minimum boundary confidence (0-1) for --yes to trim; lower-confidence files are flagged for review', parseFloat, 0.5)
+    .option('--schedule-fallback', 'When no boundary is detected, trim to the NHK EPG slot relative to the NFO start time', false)
+    .option('--schedule-padding <seconds>', 'Seconds kept on each side of a schedule-derived trim', parseFloat, 30)
+    .option('--parallelism <n>', 'Number of ffmpeg analysis windows to decode in parallel', parseInt, 12)
     .option('--metadata', 'Enable metadata lookup', false)
     .option('--tvdb-api-key <key>', 'TVDB API key', process.env.TVDB_API_KEY)
     .option('--tmdb-api-key <token>', 'TMDB v3 read access token (Bearer)', process.env.TMDB_API_KEY)
     .option('--metadata-cache <path>', 'Path to metadata cache JSON', `${process.cwd()}/cache.json`)
-    .option('--history-db <path>', 'Path to history database file', `${process.cwd()}/history.db`)
+    .option('--history-db <path>', 'Path to history database file (episode history and analysis cache)', `${process.cwd()}/history.db`)
     .option('--metadata-rate-limit <n>', 'Max TVDB requests per second', parseFloat, 1)
     .option('--metadata-user-agent <ua>', 'User-Agent for metadata requests', 'Mozilla/5.0 (X11; Linux x86_64; rv:143.0) Gecko/20100101 Firefox/143.0')
+    .option('--cut-mode <mode>', 'Stream-copy trim mode: copy (exact times), keyframe (start on the first keyframe inside the programme), smart (re-encode only the edge GOPs)', 'copy')
     .option('--transcode', 'Enable transcoding of trimmed files to selected container', false)
     .option('--preset <preset>', 'Transcode preset (ultrafast, superfast, veryfast, faster, fast, medium, slow, slower, veryslow, placebo)', 'medium')
     .option('--crf <number>', 'CRF value for quality (lower = better quality, 18-23 recommended)', '18')
@@ -46,14 +84,78 @@ program
     .option('--delete-original', 'Delete original .ts and .nfo files only if ALL requested operations (metadata, trimming, transcoding) complete successfully', false)
     .option('--delete-duplicates', 'Delete .ts and .nfo when skipped because episode is already in history DB', false);
 
-program.parse();
+program
+    .command('calibrate')
+    .description('Build a reference image, logo mask and channel profile from black/ident frames in a recording')
+    .requiredOption('--file <path>', 'Recording to calibrate from')
+    .requiredOption('--at <time>', 'Timestamp of a black/ident frame (seconds or HH:MM:SS)')
+    .option('--duration <seconds>', 'Seconds sampled around --at', parseFloat, 10)
+    .option('--frame-rate <fps>', 'Sampling rate', parseFloat, 8)
+    .option('--name <profile>', 'Name of the profile to write', 'calibrated')
+    .option('--base-profile <name>', 'Profile the calibrated one extends', 'nhk-world')
+    .option('--reference-out <path>', 'Where to write the reference PNG (default: data/<name>.png)')
+    .option('--config <path>', 'JSON config file the profile is written to', `${process.cwd()}/nhk-ts.config.json`)
+    .option('--dark-threshold <n>', 'Maximum mean luma (0-1) for a frame to be a black/ident candidate', parseFloat, 0.12)
+    .option('--quiet', 'Suppress all output except errors', false)
+    .option('--verbosity <level>', 'Verbosity level: quiet, normal, verbose', 'normal')
+    .action(async (options: CalibrateOptions) => {
+        try {
+            await checkDependencies();
+            await runCalibration(options);
+        } catch (err) {
+            console.error(colors.error(`${err instanceof Error ? err.message : err}`));
+            process.exit(1);
+        }
+    });
+
+const catalogue = program
+    .command('catalogue')
+    .description('Manage the perceptual-hash catalogue of promos, idents and programme frames');
+
+catalogue
+    .command('tag')
+    .description('Hash the frames of a segment (e.g. a promo seen in a report) and add them to the catalogue')
+    .option('--report <path>', 'Report JSON of the recording the segment is in')
+    .option('--file <path>', 'Recording the segment is in (instead of --report)')
+    .requiredOption('--from <time>', 'Segment start (seconds or HH:MM:SS)')
+    .requiredOption('--to <time>', 'Segment end (seconds or HH:MM:SS)')
+    .requiredOption('--tag <tag>', 'promo, ident or programme')
+    .option('--label <text>', 'Free-text label, e.g. the promoted show')
+    .option('--frame-rate <fps>', 'Frames hashed per second of the segment', parseFloat, 2)
+    .option('--catalogue <path>', 'Catalogue file', `${process.cwd()}/nhk-ts.catalogue.json`)
+    .option('--quiet', 'Suppress all output except errors', false)
+    .option('--verbosity <level>', 'Verbosity level: quiet, normal, verbose', 'normal')
+    .action(async (options: CatalogueTagOptions) => {
+        try {
+            await checkDependencies();
+            await runCatalogueTag(options);
+        } catch (err) {
+            console.error(colors.error(`${err instanceof Error ? err.message : err}`));
+            process.exit(1);
+        }
+    });
+
+catalogue
+    .command('list')
+    .description('Summarise the catalogue by tag and label')
+    .option('--catalogue <path>', 'Catalogue file', `${process.cwd()}/nhk-ts.catalogue.json`)
+    .option('--quiet', 'Suppress all output except errors', false)
+    .option('--verbosity <level>', 'Verbosity level: quiet, normal, verbose', 'normal')
+    .action(async (options: CatalogueListOptions) => {
+        try {
+            await runCatalogueList(options);
+        } catch (err) {
+            console.error(colors.error(`${err instanceof Error ? err.message : err}`));
+            process.exit(1);
+        }
+    });
 
 if (process.argv.length <= 2) {
     program.outputHelp();
     process.exit(0);
 }
 
-(async () => {
+program.action(async () => {
     const options = program.opts() as ProgramOptions;
     const logger = new Logger({
         verbosity: options.verbosity,
@@ -74,6 +176,31 @@ if (process.argv.length <= 2) {
         logger.warning('ALPHA — high CPU/RAM use. Use at your own risk.');
     });
 
+    try {
+        options.analysisProfile = await resolveChannelProfile(options, logger, program.getOptionValueSource('config') !== 'default');
+    } catch (err) {
+        console.error(colors.error(`${err instanceof Error ? err.message : err}`));
+        process.exit(1);
+    }
+    const profile = options.analysisProfile;
+    if (!CUT_MODES.includes(options.cutMode)) {
+        console.error(colors.error(`Unknown cut mode "${options.cutMode}"; expected one of ${CUT_MODES.join(', ')}`));
+        process.exit(1);
+    }
+    const unknownMarkers = options.markers.filter(f => !MARKER_FORMATS.includes(f));
+    if (unknownMarkers.length > 0) {
+        console.error(colors.error(`Unknown marker format "${unknownMarkers.join(', ')}"; expected ${MARKER_FORMATS.join(', ')}`));
+        process.exit(1);
+    }
+    if (options.split && options.review) {
+        console.error(colors.error('--review does not support --split; each programme is confirmed with the prompt instead'));
+        process.exit(1);
+    }
+    if (options.markers.length > 0 && (options.split || options.transcode || options.deleteOriginal)) {
+        console.error(colors.error('--markers keeps recordings intact and cannot be combined with --split, --transcode or --delete-original'));
+        process.exit(1);
+    }
+
     // Configuration display
     const config = {
         'Input': options.input,
@@ -81,15 +208,39 @@ if (process.argv.length <= 2) {
         'Output Directory': options.output,
         'Min Black Duration': `${options.minBlack}s`,
         'Pixel Threshold': options.pixThreshold.toString(),
-        'Reference Image': options.reference,
+        'Channel Profile': `${profile.name} (${profile.description})`,
+        'Reference Images': profile.references.join(', '),
+        'Logo Mask': `${profile.mask.x},${profile.mask.y},${profile.mask.w},${profile.mask.h}`,
+        'Ident Clips': profile.identClips.length > 0 ? `${profile.identClips.join(', ')} (score ≥ ${profile.identThreshold})` : 'none',
+        'Logo Template': profile.logoTemplate ? `${profile.logoTemplate} (presence ≥ ${profile.logoThreshold})` : 'none',
+        'Similarity Threshold': profile.similarityThreshold.toString(),
+        'Consecutive Frames': profile.consecutiveFrames.toString(),
+        'Scan Frame Rate': `${profile.frameRate} fps`,
+        'Silence': `${profile.silenceThreshold}dB for ${profile.minSilenceDuration}s`,
+        'Detectors': Object.entries(profile.detectorWeights).map(([name, weight]) => `${name}=${weight}`).join(', '),
+        'Combine Threshold': profile.combineThreshold.toString(),
+        'Fallback Detectors': Object.entries(profile.fallbackWeights).filter(([, w]) => w > 0).map(([name, weight]) => `${name}=${weight}`).join(', ') || 'none',
         'Keep Debug': options.keepDebug.toString(),
-        'Start Window': `${options.startWindow}s`,
-        'End Window': `${options.endWindow}s`,
+        'Start Window': `${profile.startWindow}s`,
+        'End Window': `${profile.endWindow}s`,
+        'Max Window': `${profile.maxWindow}s`,
+        'EPG Windows': options.epgWindows.toString(),
+        'Refine Cuts': options.refine.toString(),
+        'Reanalyze': options.reanalyze.toString(),
+        'Report': options.report ? `${options.report} (${['JSON', options.reportCsv ? 'CSV' : '', options.reportHtml ? 'HTML' : ''].filter(Boolean).join(' + ')})` : '(none)',
+        'Previews': options.preview ? (options.previewDir || '(next to output)') : 'off',
+        'Markers': options.markers.length > 0 ? `${options.markers.join(', ')} (no trimming)` : 'off',
+        'Intro Chapters': options.introChapters.toString(),
+        'Interactive Review': options.review.toString(),
+        'Split Programmes': options.split.toString(),
+        'Catalogue': options.catalogue,
         'Parallelism': (options.parallelism || 12).toString(),
         'Verbosity': options.verbosity,
         'Quiet': options.quiet.toString(),
         'Test Mode': options.test.toString(),
         'Auto-Confirm': options.yes.toString(),
+        'Min Confidence': options.minConfidence.toString(),
+        'Schedule Fallback': options.scheduleFallback ? `on (±${options.schedulePadding}s)` : 'off',
         'Metadata Lookup': options.metadata.toString(),
         'TVDB API Key': options.tvdbApiKey ? '••••••••' : '(none)',
         'TMDB API Key': options.tmdbApiKey ? '••••••••' : '(none)',
@@ -98,6 +249,7 @@ if (process.argv.length <= 2) {
         'Metadata Rate Limit': `${options.metadataRateLimit}/s`,
         'Delete Originals': options.deleteOriginal.toString(),
         'Delete Duplicates': options.deleteDuplicates.toString(),
+        'Cut Mode': options.transcode ? 'n/a (transcoding)' : options.cutMode,
         'Transcode': options.transcode.toString(),
         'Preset': options.preset,
         'CRF': options.crf.toString(),
@@ -163,4 +315,6 @@ if (process.argv.length <= 2) {
         logger.error(`Fatal error: ${error}`);
         process.exit(1);
     });
-})(); 
\ No newline at end of file
+});
+
+await program.parseAsync();
@@ -0,0 +1,57 @@
+/**
+ * How stream-copy trims treat the keyframe structure of the recording:
+ * - `copy`: cut at the exact times and let ffmpeg deal with the partial GOPs (may show a garbled first second)
+ * - `keyframe`: move the start to the first keyframe inside the programme
+ * - `smart`: re-encode only the partial GOP at each edge and stream-copy everything in between
+ */
+export type CutMode = 'copy' | 'keyframe' | 'smart';
+
+export const CUT_MODES: readonly CutMode[] = ['copy', 'keyframe', 'smart'];
+
+export interface CutSegment {
+    /** Seconds from the start of the recording. */
+    start: number;
+    end: number;
+    /** Re-encode this part instead of copying it. */
+    reencode: boolean;
+}
+
+export interface CutPlan {
+    /** Mode actually used; `smart` and `keyframe` degrade when the keyframes do not allow them. */
+    mode: CutMode;
+    start: number;
+    end: number;
+    /** Parts concatenated in order to form the output. */
+    segments: CutSegment[];
+}
+
+/**
+ * Plan a stream-copy trim of `[start, end]` against the recording's keyframe times.
+ * Keyframes within `tolerance` seconds of a cut count as lying on it, so cuts already
+ * on a keyframe are not re-encoded for a rounding difference.
+ */
+export function planCut(keyframes: number[], start: number, end: number, mode: CutMode, tolerance: number): CutPlan {
+    const copy: CutPlan = { mode: 'copy', start, end, segments: [{ start, end, reencode: false }] };
+    if (mode === 'copy') return copy;
+
+    const firstInside = keyframes.find(k => k >= start - tolerance && k < end);
+    if (firstInside === undefined) {
+        // No keyframe inside the programme: only a full re-encode can start it cleanly
+        return mode === 'smart' ? { mode, start, end, segments: [{ start, end, reencode: true }] } : copy;
+    }
+    const kStart = Math.max(start, firstInside);
+    if (mode === 'keyframe') {
+        return { mode, start: kStart, end, segments: [{ start: kStart, end, reencode: false }] };
+    }
+
+    let lastInside = kStart;
+    for (const k of keyframes) {
+        if (k > kStart && k <= end + tolerance) lastInside = k;
+    }
+    const kEnd = Math.min(end, lastInside);
+    const segments: CutSegment[] = [];
+    if (kStart - start > tolerance) segments.push({ start, end: kStart, reencode: true });
+    if (kEnd > kStart) segments.push({ start: kStart, end: kEnd, reencode: false });
+    if (end - kEnd > tolerance) segments.push({ start: kEnd, end, reencode: true });
+    return { mode, start, end, segments };
+}
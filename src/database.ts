@@ -1,6 +1,8 @@
 import sqlite3 from 'sqlite3';
 import { MetadataInfo } from './metadata/types.js';
 import { Logger } from './logger.js';
+import type { ReviewDecision, TrimSource } from './types.js';
+import { ANALYZER_VERSION, type FileIdentity } from './analyzer/cache.js';
 
 export class DatabaseService {
     private db: sqlite3.Database;
@@ -42,25 +44,80 @@ export class DatabaseService {
             });
         });
 
+        await this.addColumnIfMissing('processed_files', 'episode_source', "TEXT DEFAULT 'tvdb'");
+        await this.addColumnIfMissing('processed_files', 'trim_source', "TEXT DEFAULT 'analysis'");
+        await this.addColumnIfMissing('processed_files', 'output_path', 'TEXT');
+
+        await new Promise<void>((resolve, reject) => {
+            const sql = `
+                CREATE TABLE IF NOT EXISTS analysis_cache (
+                    path TEXT NOT NULL,
+                    params_hash TEXT NOT NULL,
+                    size INTEGER NOT NULL,
+                    mtime REAL NOT NULL,
+                    partial_hash TEXT NOT NULL,
+                    analyzer_version INTEGER NOT NULL,
+                    result TEXT NOT NULL,
+                    analyzedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+                    PRIMARY KEY (path, params_hash)
+                );
+            `;
+            this.db.run(sql, (err) => {
+                if (err) {
+                    this.logger.error(`Error creating table: ${err.message}`);
+                    return reject(err);
+                }
+                this.logger.debug("Table 'analysis_cache' is ready.");
+                resolve();
+            });
+        });
+
         await new Promise<void>((resolve, reject) => {
+            const sql = `
+                CREATE TABLE IF NOT EXISTS review_decisions (
+                    path TEXT PRIMARY KEY,
+                    size INTEGER NOT NULL,
+                    mtime REAL NOT NULL,
+                    partial_hash TEXT NOT NULL,
+                    action TEXT NOT NULL,
+                    program_start REAL,
+                    program_end REAL,
+                    decidedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+                );
+            `;
+            this.db.run(sql, (err) => {
+                if (err) {
+                    this.logger.error(`Error creating table: ${err.message}`);
+                    return reject(err);
+                }
+                this.logger.debug("Table 'review_decisions' is ready.");
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Add a column to an existing table when an older database lacks it.
+     */
+    private addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
             this.db.all(
-                'PRAGMA table_info(processed_files)',
+                `PRAGMA table_info(${table})`,
                 (err, rows: { name: string }[]) => {
                     if (err) {
                         return reject(err);
                     }
-                    const hasEpisodeSource = rows.some((r) => r.name === 'episode_source');
-                    if (hasEpisodeSource) {
+                    if (rows.some((r) => r.name === column)) {
                         return resolve();
                     }
                     this.db.run(
-                        "ALTER TABLE processed_files ADD COLUMN episode_source TEXT DEFAULT 'tvdb'",
+                        `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
                         (alterErr) => {
                             if (alterErr) {
-                                this.logger.error(`Error adding episode_source column: ${alterErr.message}`);
+                                this.logger.error(`Error adding ${column} column: ${alterErr.message}`);
                                 return reject(alterErr);
                             }
-                            this.logger.debug("Column 'episode_source' added to processed_files.");
+                            this.logger.debug(`Column '${column}' added to ${table}.`);
                             resolve();
                         }
                     );
@@ -69,11 +126,11 @@ export class DatabaseService {
         });
     }
 
-    public async addProcessedFile(metadata: MetadataInfo): Promise<void> {
+    public async addProcessedFile(metadata: MetadataInfo, trimSource: TrimSource = 'analysis', outputPath: string | null = null): Promise<void> {
         return new Promise((resolve, reject) => {
             const sql = `
-                INSERT INTO processed_files (seriesName, season, episodeNumber, episodeName, firstAired, tvdbId, episode_source)
-                VALUES (?, ?, ?, ?, ?, ?, ?);
+                INSERT INTO processed_files (seriesName, season, episodeNumber, episodeName, firstAired, tvdbId, episode_source, trim_source, output_path)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);
             `;
             const episodeSource = metadata.episodeSource || 'tvdb';
             this.db.run(sql, [
@@ -83,7 +140,9 @@ export class DatabaseService {
                 metadata.episodeName,
                 metadata.firstAired,
                 metadata.tvdbId,
-                episodeSource
+                episodeSource,
+                trimSource,
+                outputPath
             ], (err) => {
                 if (err) {
                     this.logger.error(`Error inserting data: ${err.message}`);
@@ -111,6 +170,126 @@ export class DatabaseService {
         });
     }
 
+    /**
+     * Output files of other processed episodes of a series, most recent first.
+     */
+    public async getSeriesOutputs(seriesName: string, exclude: MetadataInfo): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            const sql = `
+                SELECT output_path FROM processed_files
+                WHERE seriesName = ? AND output_path IS NOT NULL AND NOT (season = ? AND episodeNumber = ?)
+                ORDER BY processedAt DESC;
+            `;
+            this.db.all(sql, [seriesName, exclude.season, exclude.episodeNumber], (err, rows: { output_path: string }[]) => {
+                if (err) {
+                    this.logger.error(`Error reading history: ${err.message}`);
+                    return reject(err);
+                }
+                resolve(rows.map(r => r.output_path));
+            });
+        });
+    }
+
+    /**
+     * Cached analysis result for this exact file and parameters, or null when the file changed,
+     * the parameters differ or it was never analysed.
+     */
+    public async getCachedAnalysis(identity: FileIdentity, paramsHash: string): Promise<unknown | null> {
+        return new Promise((resolve, reject) => {
+            const sql = `
+                SELECT result FROM analysis_cache
+                WHERE path = ? AND params_hash = ? AND size = ? AND mtime = ? AND partial_hash = ? AND analyzer_version = ?;
+            `;
+            this.db.get(sql, [identity.path, paramsHash, identity.size, identity.mtimeMs, identity.partialHash, ANALYZER_VERSION], (err, row: { result: string } | undefined) => {
+                if (err) {
+                    this.logger.error(`Error reading analysis cache: ${err.message}`);
+                    return reject(err);
+                }
+                if (!row) return resolve(null);
+                try {
+                    resolve(JSON.parse(row.result));
+                } catch {
+                    this.logger.warning(`[CACHE] Ignoring unreadable cached analysis for ${identity.path}`);
+                    resolve(null);
+                }
+            });
+        });
+    }
+
+    public async saveCachedAnalysis(identity: FileIdentity, paramsHash: string, result: unknown): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const sql = `
+                INSERT OR REPLACE INTO analysis_cache (path, params_hash, size, mtime, partial_hash, analyzer_version, result)
+                VALUES (?, ?, ?, ?, ?, ?, ?);
+            `;
+            this.db.run(sql, [
+                identity.path,
+                paramsHash,
+                identity.size,
+                identity.mtimeMs,
+                identity.partialHash,
+                ANALYZER_VERSION,
+                JSON.stringify(result)
+            ], (err) => {
+                if (err) {
+                    this.logger.error(`Error writing analysis cache: ${err.message}`);
+                    return reject(err);
+                }
+                this.logger.debug(`[CACHE] Stored analysis for ${identity.path}`);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * The review decision stored for this exact file, or null when there is none or the file changed since.
+     */
+    public async getReviewDecision(identity: FileIdentity): Promise<(ReviewDecision & { decidedAt: string }) | null> {
+        return new Promise((resolve, reject) => {
+            const sql = `
+                SELECT action, program_start, program_end, decidedAt FROM review_decisions
+                WHERE path = ? AND size = ? AND mtime = ? AND partial_hash = ?;
+            `;
+            type Row = { action: string; program_start: number | null; program_end: number | null; decidedAt: string };
+            this.db.get(sql, [identity.path, identity.size, identity.mtimeMs, identity.partialHash], (err, row: Row | undefined) => {
+                if (err) {
+                    this.logger.error(`Error reading review decision: ${err.message}`);
+                    return reject(err);
+                }
+                if (!row) return resolve(null);
+                if (row.action === 'accept' && row.program_start !== null && row.program_end !== null) {
+                    return resolve({ action: 'accept', start: row.program_start, end: row.program_end, decidedAt: row.decidedAt });
+                }
+                resolve(row.action === 'skip' ? { action: 'skip', decidedAt: row.decidedAt } : null);
+            });
+        });
+    }
+
+    public async saveReviewDecision(identity: FileIdentity, decision: ReviewDecision): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const sql = `
+                INSERT OR REPLACE INTO review_decisions (path, size, mtime, partial_hash, action, program_start, program_end)
+                VALUES (?, ?, ?, ?, ?, ?, ?);
+            `;
+            this.db.run(sql, [
+                identity.path,
+                identity.size,
+                identity.mtimeMs,
+                identity.partialHash,
+                decision.action,
+                decision.action === 'accept' ? decision.start : null,
+                decision.action === 'accept' ? decision.end : null
+            ], (err) => {
+                if (err) {
+                    this.logger.error(`Error writing review decision: ${err.message}`);
+                    return reject(err);
+                }
+                this.logger.debug(`[REVIEW] Stored ${decision.action} for ${identity.path}`);
+                resolve();
+            });
+        });
+    }
+
     public close(): Promise<void> {
         return new Promise((resolve, reject) => {
             this.db.close((err) => {
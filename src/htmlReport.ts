@@ -0,0 +1,149 @@
+import { Logger } from './logger.js';
+import { probeMedia } from './mediaProbe.js';
+import { formatTime } from './utils.js';
+import { extractFramePng } from './preview.js';
+import type { AnalysisReport, ReportWindow } from './report.js';
+
+/** Plot geometry in SVG user units. */
+const PLOT = { width: 1000, height: 220, left: 44, right: 12, top: 12, bottom: 28 };
+/** Audio levels are drawn on this dB range. */
+const AUDIO_DB_RANGE = { min: -90, max: 0 };
+const THUMBNAIL_WIDTH = 320;
+
+export interface CutThumbnail {
+    /** Human-readable cut, e.g. `Start` or `02 End`. */
+    label: string;
+    time: number;
+    /** Base64 PNGs of the frames just before and just after the cut; null when extraction failed. */
+    before: string | null;
+    after: string | null;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Thumbnails of the frames on either side of every cut in the report, one native frame away.
+ */
+export async function collectCutThumbnails(report: AnalysisReport, logger: Logger): Promise<CutThumbnail[]> {
+    const probe = await probeMedia(report.file, logger);
+    const frame = 1 / (probe.video?.frameRate || 25);
+    const thumbnails: CutThumbnail[] = [];
+    for (const [i, cut] of report.cuts.entries()) {
+        const prefix = report.cuts.length > 1 ? `${String(i + 1).padStart(2, '0')} ` : '';
+        for (const [edge, time] of [['Start', cut.start], ['End', cut.end]] as const) {
+            if (time === null) continue;
+            thumbnails.push({
+                label: `${prefix}${edge}`,
+                time,
+                before: (await extractFramePng(report.file, time - frame, THUMBNAIL_WIDTH, logger))?.toString('base64') ?? null,
+                after: (await extractFramePng(report.file, time + frame, THUMBNAIL_WIDTH, logger))?.toString('base64') ?? null,
+            });
+        }
+    }
+    return thumbnails;
+}
+
+/**
+ * SVG plot of one window: similarity and audio level lines, the combined score as a step
+ * line, silence periods and candidate runs shaded, and the chosen cuts as vertical markers.
+ */
+function renderWindowSvg(window: ReportWindow, report: AnalysisReport): string {
+    const frames = report.frames.filter(f => f.window === window.label);
+    const plotW = PLOT.width - PLOT.left - PLOT.right;
+    const plotH = PLOT.height - PLOT.top - PLOT.bottom;
+    const x = (t: number) => PLOT.left + ((t - window.offset) / Math.max(window.duration, 1e-6)) * plotW;
+    const y = (v: number) => PLOT.top + (1 - Math.min(1, Math.max(0, v))) * plotH;
+    const dbToUnit = (db: number) => (db - AUDIO_DB_RANGE.min) / (AUDIO_DB_RANGE.max - AUDIO_DB_RANGE.min);
+    const inWindow = (t: number) => t >= window.offset && t <= window.offset + window.duration;
+    const parts: string[] = [];
+
+    for (const s of window.silences) {
+        const from = Math.max(window.offset, s.start);
+        const to = Math.min(window.offset + window.duration, s.end);
+        if (to <= from) continue;
+        parts.push(`<rect class="silence" x="${x(from).toFixed(1)}" y="${PLOT.top}" width="${(x(to) - x(from)).toFixed(1)}" height="${plotH}"><title>silence ${formatTime(s.start)}–${formatTime(s.end)}</title></rect>`);
+    }
+    for (const c of window.candidates) {
+        parts.push(`<rect class="candidate${c.valid ? '' : ' weak'}" x="${x(c.runStart).toFixed(1)}" y="${PLOT.top + plotH - 8}" width="${Math.max(1, x(c.runEnd) - x(c.runStart)).toFixed(1)}" height="8"><title>candidate ${formatTime(c.time)} confidence ${c.confidence.toFixed(2)}</title></rect>`);
+    }
+
+    const threshold = report.parameters.profile.similarityThreshold;
+    parts.push(`<line class="threshold" x1="${PLOT.left}" x2="${PLOT.left + plotW}" y1="${y(threshold).toFixed(1)}" y2="${y(threshold).toFixed(1)}"><title>similarity threshold ${threshold}</title></line>`);
+
+    const polyline = (cls: string, points: [number, number][]) =>
+        points.length > 0 ? `<polyline class="${cls}" points="${points.map(([t, v]) => `${x(t).toFixed(1)},${y(v).toFixed(1)}`).join(' ')}"/>` : '';
+    parts.push(polyline('combined', frames.map(f => [f.time, f.combined])));
+    parts.push(polyline('audio', frames.filter(f => f.audioDb !== null && isFinite(f.audioDb)).map(f => [f.time, dbToUnit(f.audioDb!)])));
+    parts.push(polyline('similarity', frames.filter(f => f.similarity !== null).map(f => [f.time, f.similarity!])));
+
+    if (window.expected !== undefined && inWindow(window.expected)) {
+        parts.push(`<line class="expected" x1="${x(window.expected).toFixed(1)}" x2="${x(window.expected).toFixed(1)}" y1="${PLOT.top}" y2="${PLOT.top + plotH}"><title>EPG ${formatTime(window.expected)}</title></line>`);
+    }
+    for (const cut of report.cuts) {
+        for (const time of [cut.start, cut.end]) {
+            if (time === null || !inWindow(time)) continue;
+            parts.push(`<line class="cut" x1="${x(time).toFixed(1)}" x2="${x(time).toFixed(1)}" y1="${PLOT.top}" y2="${PLOT.top + plotH}"><title>cut ${formatTime(time)} (${cut.source})</title></line>`);
+        }
+    }
+
+    // Roughly ten time ticks, on whole seconds
+    const step = Math.max(1, Math.ceil(window.duration / 10));
+    for (let t = Math.ceil(window.offset / step) * step; t <= window.offset + window.duration; t += step) {
+        parts.push(`<text class="tick" x="${x(t).toFixed(1)}" y="${PLOT.height - 8}">${formatTime(t)}</text>`);
+    }
+    parts.push(`<text class="axis" x="4" y="${y(1) + 4}">1.0</text><text class="axis" x="4" y="${y(0)}">0</text>`);
+    parts.push(`<rect class="frame" x="${PLOT.left}" y="${PLOT.top}" width="${plotW}" height="${plotH}"/>`);
+
+    return `<svg viewBox="0 0 ${PLOT.width} ${PLOT.height}" xmlns="http://www.w3.org/2000/svg">${parts.join('')}</svg>`;
+}
+
+/**
+ * Self-contained HTML page for one report; everything (styles, plots, thumbnails) is inlined
+ * so it can be opened offline or attached to a bug report.
+ */
+export function renderHtmlReport(report: AnalysisReport, thumbnails: CutThumbnail[]): string {
+    const title = report.file.split(/[\\/]/).pop() ?? report.file;
+    const cuts = report.cuts.map((cut, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(cut.title ?? '')}</td>`
+        + `<td>${cut.start === null ? '—' : formatTime(cut.start)}</td><td>${cut.end === null ? '—' : formatTime(cut.end)}</td>`
+        + `<td>${cut.source === 'schedule' ? 'schedule' : cut.confidence.toFixed(2)}</td></tr>`).join('');
+    const windows = report.windows.map(w => `<section><h2>${escapeHtml(w.label)} window <small>${formatTime(w.offset)}–${formatTime(w.offset + w.duration)} · ${w.frameRate} fps · ${w.candidates.length} candidate(s)</small></h2>${renderWindowSvg(w, report)}</section>`).join('');
+    const image = (data: string | null, alt: string) => data ? `<img alt="${alt}" src="data:image/png;base64,${data}">` : '<div class="missing">no frame</div>';
+    const thumbs = thumbnails.map(t => `<figure><figcaption>${escapeHtml(t.label)} · ${formatTime(t.time)}</figcaption>`
+        + `<div class="pair">${image(t.before, 'before')}${image(t.after, 'after')}</div></figure>`).join('');
+    const notes = report.notes.map(n => `<li>${escapeHtml(n)}</li>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} · nhk-ts analysis</title>
+<style>
+body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #1d1d1f; background: #fafafa; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 28px; } small { color: #666; font-weight: normal; }
+table { border-collapse: collapse; } td, th { padding: 4px 10px; border-bottom: 1px solid #ddd; text-align: left; }
+svg { width: 100%; max-width: 1000px; background: #fff; border: 1px solid #ddd; }
+.frame { fill: none; stroke: #bbb; } .silence { fill: #4c8bf5; opacity: 0.15; }
+.candidate { fill: #2e7d32; } .candidate.weak { fill: #f9a825; }
+.similarity { fill: none; stroke: #222; stroke-width: 1.2; } .audio { fill: none; stroke: #4c8bf5; stroke-width: 1; }
+.combined { fill: none; stroke: #8e24aa; stroke-width: 1; opacity: 0.6; }
+.threshold { stroke: #222; stroke-dasharray: 4 3; opacity: 0.5; } .expected { stroke: #f9a825; stroke-dasharray: 6 3; stroke-width: 1.5; }
+.cut { stroke: #d32f2f; stroke-width: 2; } .tick, .axis { font-size: 10px; fill: #666; } .tick { text-anchor: middle; }
+.legend span { margin-right: 16px; } .legend i { display: inline-block; width: 14px; height: 3px; vertical-align: middle; margin-right: 4px; }
+figure { display: inline-block; margin: 0 16px 16px 0; } .pair img, .missing { width: ${THUMBNAIL_WIDTH / 2}px; margin-right: 4px; }
+.missing { display: inline-block; height: 90px; background: #eee; text-align: center; line-height: 90px; color: #999; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Profile <b>${escapeHtml(report.parameters.profile.name)}</b> · duration ${formatTime(report.duration)} · analyzer v${report.analyzerVersion} · generated ${escapeHtml(report.generatedAt)}</p>
+<table><tr><th>#</th><th>Title</th><th>Start</th><th>End</th><th>Confidence</th></tr>${cuts}</table>
+<p class="legend"><span><i style="background:#222"></i>similarity</span><span><i style="background:#4c8bf5"></i>audio level (${AUDIO_DB_RANGE.min}–${AUDIO_DB_RANGE.max} dB)</span><span><i style="background:#8e24aa"></i>combined</span><span><i style="background:#4c8bf5;opacity:.3;height:10px"></i>silence</span><span><i style="background:#2e7d32"></i>candidate</span><span><i style="background:#d32f2f"></i>cut</span></p>
+${windows}
+${thumbs ? `<h2>Frames around the cuts <small>before · after</small></h2>${thumbs}` : ''}
+${notes ? `<h2>Notes</h2><ul>${notes}</ul>` : ''}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,95 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Logger } from './logger.js';
+import { remuxWithChapters, type Chapter } from './chapters.js';
+import type { MediaProbe } from './mediaProbe.js';
+
+export type MarkerFormat = 'edl' | 'comskip' | 'chapters';
+
+export const MARKER_FORMATS: readonly MarkerFormat[] = ['edl', 'comskip', 'chapters'];
+
+/** Padding shorter than this at either end is not worth a marker. */
+const MIN_PADDING_SECONDS = 0.5;
+
+/**
+ * The stretches of the recording outside the programme.
+ */
+export function paddingRanges(start: number, end: number, duration: number): [number, number][] {
+    const ranges: [number, number][] = [];
+    if (start >= MIN_PADDING_SECONDS) ranges.push([0, start]);
+    if (duration - end >= MIN_PADDING_SECONDS) ranges.push([end, duration]);
+    return ranges;
+}
+
+/**
+ * Kodi/MPlayer EDL: one `start end action` line per range, in seconds. Action 0 (cut) is the one
+ * both players skip.
+ */
+export function buildEdl(ranges: [number, number][]): string {
+    return ranges.map(([from, to]) => `${from.toFixed(2)}\t${to.toFixed(2)}\t0`).join('\n') + '\n';
+}
+
+/**
+ * Comskip's `.txt` output: a header with the frame count and frame rate ×100, then one
+ * `start end` line per range in frames.
+ */
+export function buildComskip(ranges: [number, number][], duration: number, frameRate: number): string {
+    const frame = (t: number) => Math.round(t * frameRate);
+    return [
+        `FILE PROCESSING COMPLETE ${frame(duration)} FRAMES AT ${Math.round(frameRate * 100)}`,
+        '-------------------',
+        ...ranges.map(([from, to]) => `${frame(from)}\t${frame(to)}`),
+    ].join('\n') + '\n';
+}
+
+/**
+ * Chapters splitting the recording into the padding before, the programme and the padding after.
+ */
+export function programmeChapters(start: number, end: number, duration: number): Chapter[] {
+    const ranges = paddingRanges(start, end, duration);
+    const before = ranges.find(([from]) => from === 0);
+    const after = ranges.find(([from]) => from === end);
+    return [
+        ...(before ? [{ title: 'Before programme', start: 0, end: start }] : []),
+        { title: 'Programme', start: before ? start : 0, end: after ? end : duration },
+        ...(after ? [{ title: 'After programme', start: end, end: duration }] : []),
+    ];
+}
+
+/**
+ * Write the programme boundaries of a recording as player markers instead of cutting it. EDL and
+ * Comskip files go next to the recording under its name; chapters need a container that holds
+ * them, so `chaptersFile` gets an MKV stream copy of the whole recording. Returns the files written.
+ */
+export async function writeMarkers(
+    recording: string,
+    chaptersFile: string,
+    formats: MarkerFormat[],
+    start: number,
+    end: number,
+    probe: MediaProbe,
+    logger: Logger
+): Promise<string[]> {
+    const parsed = path.parse(recording);
+    const ranges = paddingRanges(start, end, probe.duration);
+    const written: string[] = [];
+    for (const format of formats) {
+        if (format === 'edl') {
+            const file = path.join(parsed.dir, `${parsed.name}.edl`);
+            await fs.writeFile(file, buildEdl(ranges), 'utf8');
+            written.push(file);
+        } else if (format === 'comskip') {
+            if (!probe.video) {
+                logger.warning(`[MARKERS] ${parsed.base} has no video stream; Comskip markers need a frame rate`);
+                continue;
+            }
+            const file = path.join(parsed.dir, `${parsed.name}.txt`);
+            await fs.writeFile(file, buildComskip(ranges, probe.duration, probe.video.frameRate), 'utf8');
+            written.push(file);
+        } else {
+            await remuxWithChapters(recording, chaptersFile, programmeChapters(start, end, probe.duration), logger);
+            written.push(chaptersFile);
+        }
+    }
+    return written;
+}
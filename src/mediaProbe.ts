@@ -0,0 +1,226 @@
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Logger } from './logger.js';
+
+export interface MediaStreamInfo {
+    /** Absolute stream index within the container (usable as `-map 0:<index>`). */
+    index: number;
+    /** Index among streams of the same type (usable as `-map 0:a:<typeIndex>`). */
+    typeIndex: number;
+    type: string;
+    codec: string;
+    language?: string;
+    channels?: number;
+}
+
+export interface VideoInfo {
+    width: number;
+    height: number;
+    /** Frames per second from the stream's real base frame rate. */
+    frameRate: number;
+    /** ffprobe field_order: progressive, tt, bb, tb, bt or unknown. */
+    fieldOrder: string;
+    interlaced: boolean;
+}
+
+export interface MediaProbe {
+    filePath: string;
+    /** Container duration in seconds. */
+    duration: number;
+    /** Presentation timestamp of the first packet, in seconds. */
+    startTime: number;
+    streams: MediaStreamInfo[];
+    video?: VideoInfo;
+}
+
+interface FfprobeStream {
+    index: number;
+    codec_type?: string;
+    codec_name?: string;
+    channels?: number;
+    width?: number;
+    height?: number;
+    r_frame_rate?: string;
+    avg_frame_rate?: string;
+    field_order?: string;
+    tags?: { language?: string };
+}
+
+interface FfprobeOutput {
+    streams?: FfprobeStream[];
+    format?: { duration?: string; start_time?: string };
+}
+
+const probeCache = new Map<string, Promise<MediaProbe>>();
+
+function parseRate(rate: string | undefined): number {
+    if (!rate) return 0;
+    const [num, den] = rate.split('/').map(Number);
+    if (!num || !den) return 0;
+    return num / den;
+}
+
+function runFfprobe(filePath: string): Promise<FfprobeOutput> {
+    const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath];
+    return new Promise((resolve, reject) => {
+        let stdout = '';
+        let stderr = '';
+        const proc = spawn('ffprobe', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        proc.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+        proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+        proc.on('close', (code, signal) => {
+            if (code !== 0) {
+                const cmd = `ffprobe ${args.map(a => `'${a}'`).join(' ')}`;
+                const details = [
+                    'Media probe failed',
+                    `command: ${cmd}`,
+                    `exit: code=${code ?? 'null'} signal=${signal ?? 'null'}`,
+                    stderr.trim().length > 0 ? '--- ffprobe stderr ---' : undefined,
+                    stderr.trim().length > 0 ? stderr.trim() : undefined,
+                ].filter(Boolean).join('\n');
+                return reject(new Error(`ffprobe failed\n${details}`));
+            }
+            try {
+                resolve(JSON.parse(stdout) as FfprobeOutput);
+            } catch (err) {
+                reject(new Error(`Could not parse ffprobe output: ${err}`));
+            }
+        });
+        proc.on('error', reject);
+    });
+}
+
+function toMediaProbe(filePath: string, raw: FfprobeOutput): MediaProbe {
+    const typeCounters: Record<string, number> = {};
+    const streams: MediaStreamInfo[] = (raw.streams ?? []).map((s) => {
+        const type = s.codec_type ?? 'unknown';
+        const typeIndex = typeCounters[type] ?? 0;
+        typeCounters[type] = typeIndex + 1;
+        const info: MediaStreamInfo = {
+            index: s.index,
+            typeIndex,
+            type,
+            codec: s.codec_name ?? 'unknown',
+        };
+        if (s.tags?.language) info.language = s.tags.language;
+        if (typeof s.channels === 'number') info.channels = s.channels;
+        return info;
+    });
+
+    const duration = parseFloat(raw.format?.duration ?? '');
+    if (!isFinite(duration)) throw new Error('Could not determine video duration');
+    const startTime = parseFloat(raw.format?.start_time ?? '0');
+
+    const probe: MediaProbe = {
+        filePath,
+        duration,
+        startTime: isFinite(startTime) ? startTime : 0,
+        streams,
+    };
+
+    const videoStream = (raw.streams ?? []).find(s => s.codec_type === 'video');
+    if (videoStream) {
+        const fieldOrder = videoStream.field_order ?? 'unknown';
+        probe.video = {
+            width: videoStream.width ?? 0,
+            height: videoStream.height ?? 0,
+            frameRate: parseRate(videoStream.r_frame_rate) || parseRate(videoStream.avg_frame_rate),
+            fieldOrder,
+            // Broadcast streams frequently omit field_order; keep deinterlacing unless told otherwise
+            interlaced: fieldOrder !== 'progressive',
+        };
+    }
+    return probe;
+}
+
+/**
+ * Probe a media file with ffprobe. Results are cached per resolved path for the session,
+ * so analysis, trimming and transcoding share a single probe per recording.
+ */
+export function probeMedia(filePath: string, logger: Logger): Promise<MediaProbe> {
+    const key = path.resolve(filePath);
+    const cached = probeCache.get(key);
+    if (cached) return cached;
+
+    const pending = runFfprobe(key).then((raw) => {
+        const probe = toMediaProbe(key, raw);
+        const v = probe.video;
+        logger.debug(
+            `[PROBE] ${path.basename(key)}: duration=${probe.duration.toFixed(2)}s, start=${probe.startTime.toFixed(3)}s, ` +
+            `streams=${probe.streams.map(s => `${s.index}:${s.type}/${s.codec}${s.language ? `(${s.language})` : ''}`).join(', ')}` +
+            (v ? `, video=${v.width}x${v.height}@${v.frameRate.toFixed(3)} field_order=${v.fieldOrder}` : '')
+        );
+        return probe;
+    });
+    probeCache.set(key, pending);
+    // Do not cache failures; a later call may succeed once the file is complete
+    pending.catch(() => probeCache.delete(key));
+    return pending;
+}
+
+/**
+ * Forget a cached probe, e.g. after the file has been replaced.
+ */
+export function invalidateProbe(filePath: string): void {
+    probeCache.delete(path.resolve(filePath));
+}
+
+/**
+ * Pick an audio stream, preferring the first whose codec is in `preferredCodecs`
+ * and otherwise falling back to the first audio stream.
+ */
+export function selectAudioStream(probe: MediaProbe, preferredCodecs: string[] = []): MediaStreamInfo | undefined {
+    const audio = probe.streams.filter(s => s.type === 'audio');
+    for (const codec of preferredCodecs) {
+        const match = audio.find(s => s.codec === codec);
+        if (match) return match;
+    }
+    return audio[0];
+}
+
+const keyframeCache = new Map<string, Promise<number[]>>();
+
+/**
+ * Keyframe times of the first video stream in seconds from the start of the recording
+ * (the same timeline as `-ss`), sorted. Reads packet flags only, so nothing is decoded.
+ */
+export function probeKeyframes(filePath: string, logger: Logger): Promise<number[]> {
+    const key = path.resolve(filePath);
+    const cached = keyframeCache.get(key);
+    if (cached) return cached;
+
+    const args = ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'packet=pts_time,flags', '-of', 'csv=p=0', key];
+    const pending = Promise.all([probeMedia(key, logger), new Promise<string>((resolve, reject) => {
+        let stdout = '';
+        let stderr = '';
+        const proc = spawn('ffprobe', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+        proc.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+        proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+        proc.on('close', (code, signal) => {
+            if (code === 0) return resolve(stdout);
+            const details = [
+                'Keyframe probe failed',
+                `command: ffprobe ${args.map(a => `'${a}'`).join(' ')}`,
+                `exit: code=${code ?? 'null'} signal=${signal ?? 'null'}`,
+                stderr.trim().length > 0 ? '--- ffprobe stderr ---' : undefined,
+                stderr.trim().length > 0 ? stderr.trim() : undefined,
+            ].filter(Boolean).join('\n');
+            reject(new Error(`ffprobe failed\n${details}`));
+        });
+        proc.on('error', reject);
+    })]).then(([probe, stdout]) => {
+        const keyframes: number[] = [];
+        for (const line of stdout.split('\n')) {
+            const [ptsTime, flags] = line.trim().split(',');
+            if (!flags?.includes('K')) continue;
+            const pts = parseFloat(ptsTime ?? '');
+            if (isFinite(pts)) keyframes.push(pts - probe.startTime);
+        }
+        keyframes.sort((a, b) => a - b);
+        logger.debug(`[PROBE] ${path.basename(key)}: ${keyframes.length} keyframes`);
+        return keyframes;
+    });
+    keyframeCache.set(key, pending);
+    pending.catch(() => keyframeCache.delete(key));
+    return pending;
+}
@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { spawn } from 'child_process';
+import { Logger } from './logger.js';
+import { formatCommand } from './utils.js';
+
+/** Seconds of video kept on each side of a cut in the preview clip. */
+const CLIP_SECONDS = 5;
+/** Contact sheet layout: frames sampled at SHEET_FPS, centred on the cut. */
+const SHEET_COLUMNS = 6;
+const SHEET_ROWS = 2;
+const SHEET_FPS = 2;
+
+export interface PreviewCut {
+    /** Used in the file names, e.g. `start` or `end`. */
+    label: string;
+    time: number;
+}
+
+function runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        let stderr = '';
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        proc.on('close', (code) => {
+            if (code === 0) return resolve();
+            reject(new Error(`ffmpeg failed\ncommand: ${formatCommand('ffmpeg', args)}\n${stderr.trim().slice(-4000)}`));
+        });
+        proc.on('error', reject);
+    });
+}
+
+/**
+ * Decode the single frame at `time` as a PNG scaled to `width`; null when it cannot be extracted.
+ */
+export function extractFramePng(filePath: string, time: number, width: number, logger: Logger): Promise<Buffer | null> {
+    const args = [
+        '-hide_banner', '-loglevel', 'error',
+        '-ss', Math.max(0, time).toFixed(3),
+        '-i', filePath,
+        '-frames:v', '1',
+        '-vf', `yadif,scale=${width}:-2`,
+        '-f', 'image2pipe', '-vcodec', 'png',
+        'pipe:1',
+    ];
+    return new Promise((resolve) => {
+        const chunks: Buffer[] = [];
+        const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'ignore'] });
+        proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        proc.on('close', (code) => {
+            if (code === 0 && chunks.length > 0) return resolve(Buffer.concat(chunks));
+            logger.warning(`Could not extract the frame at ${time.toFixed(3)}s`);
+            resolve(null);
+        });
+        proc.on('error', () => resolve(null));
+    });
+}
+
+/**
+ * Write a short low-resolution clip (`<base>.<label>.preview.mp4`) and a contact sheet
+ * (`<base>.<label>.sheet.jpg`) around every cut, so a batch can be checked by eye before
+ * trusting --yes or --delete-original. Returns the paths written.
+ */
+export async function writeCutPreviews(
+    filePath: string,
+    cuts: PreviewCut[],
+    dir: string,
+    baseName: string,
+    logger: Logger
+): Promise<string[]> {
+    await fs.mkdir(dir, { recursive: true });
+    const written: string[] = [];
+    const sheetSeconds = (SHEET_COLUMNS * SHEET_ROWS) / SHEET_FPS;
+    for (const cut of cuts) {
+        const base = path.join(dir, `${baseName}.${cut.label}`);
+        const clipStart = Math.max(0, cut.time - CLIP_SECONDS);
+        const clip = `${base}.preview.mp4`;
+        await runFfmpeg([
+            '-hide_banner', '-loglevel', 'error',
+            '-ss', clipStart.toFixed(3),
+            '-i', filePath,
+            '-t', (cut.time - clipStart + CLIP_SECONDS).toFixed(3),
+            '-map', '0:v:0', '-map', '0:a:0?',
+            '-vf', 'yadif,scale=640:-2',
+            '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28',
+            '-c:a', 'aac', '-b:a', '96k',
+            '-movflags', '+faststart',
+            clip, '-y',
+        ]);
+        written.push(clip);
+
+        const sheet = `${base}.sheet.jpg`;
+        const sheetStart = Math.max(0, cut.time - sheetSeconds / 2);
+        await runFfmpeg([
+            '-hide_banner', '-loglevel', 'error',
+            '-ss', sheetStart.toFixed(3),
+            '-i', filePath,
+            '-t', sheetSeconds.toFixed(3),
+            '-vf', `yadif,fps=${SHEET_FPS},scale=320:-2,tile=${SHEET_COLUMNS}x${SHEET_ROWS}:padding=4:margin=4`,
+            '-frames:v', '1',
+            sheet, '-y',
+        ]);
+        written.push(sheet);
+        logger.info(`[PREVIEW] ${cut.label} cut at ${cut.time.toFixed(2)}s: ${path.basename(clip)}, ${path.basename(sheet)}`);
+    }
+    return written;
+}
@@ -0,0 +1,178 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Logger } from './logger.js';
+import type { BoundaryCandidate, ProgramOptions, TrimSource } from './types.js';
+import type { AnalysisTimeline } from './analyzer/detectors/types.js';
+import type { ChannelProfile } from './analyzer/profiles.js';
+import type { CutMode } from './cutPlan.js';
+import { ANALYZER_VERSION } from './analyzer/cache.js';
+import { collectCutThumbnails, renderHtmlReport } from './htmlReport.js';
+
+/**
+ * One sampled frame. Fields of detectors that did not run are null.
+ */
+export interface ReportFrame {
+    /** Absolute seconds in the recording. */
+    time: number;
+    /** Label of the window the frame belongs to. */
+    window: string;
+    similarity: number | null;
+    black: boolean | null;
+    silent: boolean | null;
+    audioDb: number | null;
+    /** Weighted evidence of all detectors. */
+    combined: number;
+    /** Score of each detector (0-1). */
+    evidence: Record<string, number>;
+}
+
+export interface ReportWindow {
+    label: string;
+    edge: string;
+    offset: number;
+    duration: number;
+    frameRate: number;
+    expected?: number;
+    /** Silence periods in absolute seconds. */
+    silences: { start: number; end: number }[];
+    candidates: BoundaryCandidate[];
+}
+
+export interface ReportCut {
+    start: number | null;
+    end: number | null;
+    confidence: number;
+    source: TrimSource;
+    title?: string;
+}
+
+export interface AnalysisReport {
+    file: string;
+    generatedAt: string;
+    analyzerVersion: number;
+    duration: number;
+    parameters: {
+        profile: ChannelProfile;
+        refine: boolean;
+        cutMode: CutMode;
+        minConfidence: number;
+        epgWindows: boolean;
+        scheduleFallback: boolean;
+        schedulePadding: number;
+        split: boolean;
+    };
+    windows: ReportWindow[];
+    frames: ReportFrame[];
+    cuts: ReportCut[];
+    notes: string[];
+}
+
+export function buildAnalysisReport(
+    filePath: string,
+    duration: number,
+    options: ProgramOptions,
+    timelines: AnalysisTimeline[],
+    cuts: ReportCut[],
+    notes: string[]
+): AnalysisReport {
+    const frames: ReportFrame[] = [];
+    const windows = timelines.map((timeline): ReportWindow => {
+        const { window, tracks, fused, frameRate } = timeline;
+        const black = tracks.find(t => t.detector === 'black-reference');
+        const silence = tracks.find(t => t.detector === 'silence');
+        fused.forEach((combined, i) => {
+            const evidence: Record<string, number> = {};
+            tracks.forEach(t => { evidence[t.detector] = t.scores[i] ?? 0; });
+            frames.push({
+                time: Math.round((window.offset + i / frameRate) * 1000) / 1000,
+                window: window.label,
+                similarity: black?.values?.[i] ?? null,
+                black: black ? (black.scores[i] ?? 0) >= 0.5 : null,
+                silent: silence ? (silence.scores[i] ?? 0) >= 0.5 : null,
+                audioDb: silence?.values?.[i] ?? null,
+                combined,
+                evidence,
+            });
+        });
+        const reportWindow: ReportWindow = {
+            label: window.label,
+            edge: window.edge,
+            offset: window.offset,
+            duration: window.duration,
+            frameRate,
+            silences: silence?.intervals ?? [],
+            candidates: timeline.candidates,
+        };
+        if (window.expected !== undefined) reportWindow.expected = window.expected;
+        return reportWindow;
+    });
+
+    return {
+        file: filePath,
+        generatedAt: new Date().toISOString(),
+        analyzerVersion: ANALYZER_VERSION,
+        duration,
+        parameters: {
+            profile: options.analysisProfile,
+            refine: options.refine,
+            cutMode: options.cutMode,
+            minConfidence: options.minConfidence,
+            epgWindows: options.epgWindows,
+            scheduleFallback: options.scheduleFallback,
+            schedulePadding: options.schedulePadding,
+            split: options.split,
+        },
+        windows,
+        frames,
+        cuts,
+        notes,
+    };
+}
+
+function csvField(value: string | number | boolean | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The frame timeline as CSV, one row per frame with a score column per detector.
+ */
+export function reportFramesToCsv(report: AnalysisReport): string {
+    const detectors = [...new Set(report.frames.flatMap(f => Object.keys(f.evidence)))];
+    const header = ['time', 'window', 'similarity', 'black', 'silent', 'audio_db', 'combined', ...detectors.map(d => `score_${d}`)];
+    const rows = report.frames.map(f => [
+        f.time, f.window, f.similarity, f.black, f.silent, f.audioDb, f.combined,
+        ...detectors.map(d => f.evidence[d] ?? null),
+    ].map(csvField).join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Write `<recording>.report.json` to `dir`, plus `<recording>.frames.csv` and the
+ * `<recording>.report.html` timeline when asked. Returns the paths written.
+ */
+export async function writeAnalysisReport(
+    dir: string,
+    report: AnalysisReport,
+    formats: { csv: boolean; html: boolean },
+    logger: Logger
+): Promise<string[]> {
+    await fs.mkdir(dir, { recursive: true });
+    const base = path.join(dir, path.parse(report.file).name);
+    const written: string[] = [];
+    const write = async (file: string, content: string) => {
+        await fs.writeFile(file, content, 'utf8');
+        written.push(file);
+    };
+    await write(`${base}.report.json`, JSON.stringify(report, null, 2));
+    if (formats.csv) {
+        await write(`${base}.frames.csv`, reportFramesToCsv(report));
+    }
+    if (formats.html) {
+        const thumbnails = await collectCutThumbnails(report, logger);
+        await write(`${base}.report.html`, renderHtmlReport(report, thumbnails));
+    }
+    logger.info(`[REPORT] Wrote ${written.join(', ')}`);
+    return written;
+}
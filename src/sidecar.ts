@@ -0,0 +1,184 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Logger } from './logger.js';
+import { parseTimestamp } from './utils.js';
+import { CUT_MODES } from './cutPlan.js';
+import type { ProgramOptions } from './types.js';
+import type { ResolvedSeries } from './metadata/types.js';
+
+/** Suffix of the override file kept next to a recording, e.g. `show.ts` -> `show.nhk.json`. */
+export const SIDECAR_SUFFIX = '.nhk.json';
+
+const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow', 'placebo'];
+const HW_ACCELS = ['none', 'nvenc', 'qsv', 'vaapi', 'auto'];
+const ENCODERS = ['libx264', 'libx265', 'h264_nvenc', 'hevc_nvenc', 'h264_qsv', 'hevc_qsv', 'h264_vaapi', 'hevc_vaapi'];
+const FORMATS = ['mkv', 'mp4'];
+
+/** Encode options a sidecar may set for its recording. */
+export type EncodeOverrides = Partial<Pick<ProgramOptions, 'transcode' | 'format' | 'encoder' | 'preset' | 'crf' | 'audioCopy' | 'hwAccel' | 'cutMode'>>;
+
+/**
+ * The sidecar as written by hand. Series use the same fields as the hardcoded mappings,
+ * with `tmdb_id` instead of `tvdb_id`/`slug` for TMDB.
+ */
+interface SidecarFile {
+    skip?: boolean;
+    skipMetadata?: boolean;
+    trim?: { start?: number | string; end?: number | string };
+    series?: { tvdb_id?: string | number; slug?: string; tmdb_id?: number; name?: string; year?: string | number };
+    episode?: { season?: number; episode?: number };
+    encode?: Record<string, unknown>;
+}
+
+/**
+ * Per-recording overrides, validated. Everything here wins over detection and lookup.
+ */
+export interface RecordingOverrides {
+    /** The sidecar the overrides came from. */
+    file: string;
+    /** Leave the recording alone. */
+    skip: boolean;
+    /** Trim without a metadata lookup, as for blacklisted titles. */
+    skipMetadata: boolean;
+    /** Explicit cuts in seconds; a missing one is still detected. */
+    trimStart?: number;
+    trimEnd?: number;
+    /** Series used instead of the title search. */
+    series?: ResolvedSeries;
+    /** Episode used instead of the description/EPG match. */
+    episode?: { season: number; episode: number };
+    encode: EncodeOverrides;
+}
+
+export function sidecarPath(filePath: string): string {
+    const parsed = path.parse(filePath);
+    return path.join(parsed.dir, `${parsed.name}${SIDECAR_SUFFIX}`);
+}
+
+function parseTrimPoint(value: unknown, field: string): number {
+    if (typeof value === 'number' && value >= 0) return value;
+    if (typeof value === 'string') return parseTimestamp(value);
+    throw new Error(`${field} must be seconds or [HH:]MM:SS`);
+}
+
+function parseSeries(series: NonNullable<SidecarFile['series']>): ResolvedSeries {
+    if (!series.name) throw new Error('series.name is required');
+    const year = series.year === undefined ? '' : String(series.year);
+    if (series.tvdb_id !== undefined) {
+        if (!series.slug) throw new Error('series.slug is required with tvdb_id (episodes are scraped by slug)');
+        return { source: 'tvdb', tvdb_id: String(series.tvdb_id), slug: series.slug, name: series.name, year };
+    }
+    if (typeof series.tmdb_id === 'number') {
+        return { source: 'tmdb', tmdbSeriesId: series.tmdb_id, name: series.name, year };
+    }
+    throw new Error('series needs tvdb_id and slug, or tmdb_id');
+}
+
+function parseEncode(encode: Record<string, unknown>): EncodeOverrides {
+    const result: EncodeOverrides = {};
+    const oneOf = <T extends string>(key: string, allowed: readonly string[]): T | undefined => {
+        const value = encode[key];
+        if (value === undefined) return undefined;
+        if (typeof value !== 'string' || !allowed.includes(value)) {
+            throw new Error(`encode.${key} must be one of ${allowed.join(', ')}`);
+        }
+        return value as T;
+    };
+    const flag = (key: string): boolean | undefined => {
+        const value = encode[key];
+        if (value === undefined) return undefined;
+        if (typeof value !== 'boolean') throw new Error(`encode.${key} must be true or false`);
+        return value;
+    };
+
+    const known = ['transcode', 'format', 'encoder', 'preset', 'crf', 'audioCopy', 'hwAccel', 'cutMode'];
+    const unknown = Object.keys(encode).filter(k => !known.includes(k));
+    if (unknown.length > 0) throw new Error(`unknown encode setting(s): ${unknown.join(', ')}`);
+
+    const transcode = flag('transcode');
+    if (transcode !== undefined) result.transcode = transcode;
+    const audioCopy = flag('audioCopy');
+    if (audioCopy !== undefined) result.audioCopy = audioCopy;
+    const format = oneOf<ProgramOptions['format']>('format', FORMATS);
+    if (format !== undefined) result.format = format;
+    const encoder = oneOf<NonNullable<ProgramOptions['encoder']>>('encoder', ENCODERS);
+    if (encoder !== undefined) result.encoder = encoder;
+    const preset = oneOf<ProgramOptions['preset']>('preset', PRESETS);
+    if (preset !== undefined) result.preset = preset;
+    const hwAccel = oneOf<NonNullable<ProgramOptions['hwAccel']>>('hwAccel', HW_ACCELS);
+    if (hwAccel !== undefined) result.hwAccel = hwAccel;
+    const cutMode = oneOf<ProgramOptions['cutMode']>('cutMode', CUT_MODES);
+    if (cutMode !== undefined) result.cutMode = cutMode;
+    if (encode.crf !== undefined) {
+        const crf = encode.crf;
+        if (typeof crf !== 'number' || !Number.isInteger(crf) || crf < 0 || crf > 51) {
+            throw new Error('encode.crf must be an integer from 0 to 51');
+        }
+        result.crf = crf;
+    }
+    return result;
+}
+
+/**
+ * Load `<recording>.nhk.json` from next to the recording. Returns null when there is none;
+ * a sidecar that is present but malformed throws, so a typo never silently falls back to
+ * detection.
+ */
+export async function loadRecordingOverrides(filePath: string, logger: Logger): Promise<RecordingOverrides | null> {
+    const file = sidecarPath(filePath);
+    let raw: string;
+    try {
+        raw = await fs.readFile(file, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    try {
+        const data = JSON.parse(raw) as SidecarFile;
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            throw new Error('expected a JSON object');
+        }
+        const overrides: RecordingOverrides = {
+            file,
+            skip: data.skip === true,
+            skipMetadata: data.skipMetadata === true,
+            encode: data.encode ? parseEncode(data.encode) : {},
+        };
+        if (data.trim?.start !== undefined) overrides.trimStart = parseTrimPoint(data.trim.start, 'trim.start');
+        if (data.trim?.end !== undefined) overrides.trimEnd = parseTrimPoint(data.trim.end, 'trim.end');
+        if (overrides.trimStart !== undefined && overrides.trimEnd !== undefined && overrides.trimEnd <= overrides.trimStart) {
+            throw new Error('trim.end must be after trim.start');
+        }
+        if (data.series) overrides.series = parseSeries(data.series);
+        if (data.episode) {
+            const { season, episode } = data.episode;
+            if (!Number.isInteger(season) || !Number.isInteger(episode)) {
+                throw new Error('episode needs integer season and episode');
+            }
+            overrides.episode = { season: season!, episode: episode! };
+        }
+        logger.info(`[SIDECAR] Loaded overrides from ${path.basename(file)}`);
+        return overrides;
+    } catch (err) {
+        throw new Error(`Invalid sidecar ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+}
+
+/**
+ * Check the sidecar's cuts against the recording once its duration is known, and, when a cut was
+ * only partly set by hand, against the detected one. Throws like a malformed sidecar.
+ */
+export function validateSidecarTrim(overrides: RecordingOverrides, duration: number, start: number | null = null, end: number | null = null): void {
+    const fail = (message: string) => {
+        throw new Error(`Invalid sidecar ${overrides.file}: ${message}`);
+    };
+    if (overrides.trimStart !== undefined && overrides.trimStart >= duration) {
+        fail(`trim.start (${overrides.trimStart}s) is not inside the recording (${duration.toFixed(2)}s)`);
+    }
+    if (overrides.trimEnd !== undefined && overrides.trimEnd > duration) {
+        fail(`trim.end (${overrides.trimEnd}s) is past the end of the recording (${duration.toFixed(2)}s)`);
+    }
+    if (start !== null && end !== null && end <= start) {
+        fail(`trim.${overrides.trimStart !== undefined ? 'start' : 'end'} leaves nothing to keep (start ${start.toFixed(2)}s, end ${end.toFixed(2)}s)`);
+    }
+}
@@ -0,0 +1,110 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Logger } from './logger.js';
+import { formatTime, parseTimestamp } from './utils.js';
+import { CHANNEL_PROFILES, DEFAULT_PROFILE } from './analyzer/profiles.js';
+import {
+    CATALOGUE_TAGS,
+    extractFrameHashes,
+    hammingDistance,
+    loadCatalogue,
+    saveCatalogue,
+    type CatalogueEntry,
+    type CatalogueTag,
+} from './analyzer/catalogue.js';
+import type { AnalysisReport } from './report.js';
+
+export interface CatalogueTagOptions {
+    /** Report JSON whose recording the segment is taken from. */
+    report?: string;
+    /** Recording, instead of a report. */
+    file?: string;
+    /** Segment bounds (seconds or HH:MM:SS) as shown in the report. */
+    from: string;
+    to: string;
+    tag: string;
+    label?: string;
+    /** Frames hashed per second of the segment. */
+    frameRate: number;
+    catalogue: string;
+    verbosity: 'quiet' | 'normal' | 'verbose';
+    quiet: boolean;
+}
+
+export interface CatalogueListOptions {
+    catalogue: string;
+    verbosity: 'quiet' | 'normal' | 'verbose';
+    quiet: boolean;
+}
+
+/**
+ * Hash the frames of one segment and add them to the catalogue under a tag. Frames within the
+ * default profile's match distance of an entry with the same tag are skipped, so tagging the
+ * same promo again from another recording only adds what is new.
+ */
+export async function runCatalogueTag(opts: CatalogueTagOptions): Promise<void> {
+    const logger = new Logger({ verbosity: opts.verbosity, quiet: opts.quiet });
+    if (!CATALOGUE_TAGS.includes(opts.tag as CatalogueTag)) {
+        throw new Error(`Unknown tag "${opts.tag}". Expected one of ${CATALOGUE_TAGS.join(', ')}`);
+    }
+    const tag = opts.tag as CatalogueTag;
+    let file = opts.file;
+    if (opts.report) {
+        const report = JSON.parse(await fs.readFile(opts.report, 'utf-8')) as AnalysisReport;
+        file = report.file;
+    }
+    if (!file) {
+        throw new Error('Give the segment\'s --report or --file');
+    }
+    const from = parseTimestamp(opts.from);
+    const to = parseTimestamp(opts.to);
+    if (!(to > from)) {
+        throw new Error(`--to (${opts.to}) must be after --from (${opts.from})`);
+    }
+
+    logger.info(`[CATALOGUE] Hashing ${formatTime(from)}–${formatTime(to)} of ${path.basename(file)} at ${opts.frameRate} fps`);
+    const hashes = await extractFrameHashes(file, from, to - from, opts.frameRate, logger);
+    const catalogue = await loadCatalogue(opts.catalogue);
+    const maxDistance = CHANNEL_PROFILES[DEFAULT_PROFILE]!.hashDistance;
+    const sameTag = catalogue.entries.filter(e => e.tag === tag);
+    const added: CatalogueEntry[] = [];
+    hashes.forEach((hash, i) => {
+        if ([...sameTag, ...added].some(e => hammingDistance(e.hash, hash) <= maxDistance)) return;
+        const entry: CatalogueEntry = {
+            hash,
+            tag,
+            source: path.basename(file!),
+            time: Math.round((from + i / opts.frameRate) * 1000) / 1000,
+            addedAt: new Date().toISOString(),
+        };
+        if (opts.label) entry.label = opts.label;
+        added.push(entry);
+    });
+    catalogue.entries.push(...added);
+    await saveCatalogue(opts.catalogue, catalogue);
+    logger.success(`[CATALOGUE] Added ${added.length} ${tag} frame(s) (${hashes.length - added.length} already known) to ${opts.catalogue}; ${catalogue.entries.length} entries in total`);
+}
+
+/**
+ * Summarise the catalogue by tag and label.
+ */
+export async function runCatalogueList(opts: CatalogueListOptions): Promise<void> {
+    const logger = new Logger({ verbosity: opts.verbosity, quiet: opts.quiet });
+    const catalogue = await loadCatalogue(opts.catalogue);
+    if (catalogue.entries.length === 0) {
+        logger.info(`[CATALOGUE] ${opts.catalogue} is empty`);
+        return;
+    }
+    const groups = new Map<string, CatalogueEntry[]>();
+    for (const entry of catalogue.entries) {
+        const key = `${entry.tag}\u0000${entry.label ?? ''}`;
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    const rows = [...groups.values()].map(entries => [
+        entries[0]!.tag,
+        entries[0]!.label ?? '',
+        entries.length.toString(),
+        [...new Set(entries.map(e => e.source))].join(', '),
+    ]);
+    logger.table(rows, ['Tag', 'Label', 'Frames', 'Sources'], `Catalogue (${catalogue.entries.length} entries)`);
+}
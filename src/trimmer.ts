@@ -1,11 +1,21 @@
 import * as path from 'path';
 import { promises as fs } from 'fs';
 import * as fsSync from 'fs';
+import * as os from 'os';
 import { colors } from './ui/styles.js';
 import { spawn } from 'child_process';
 import { Logger } from './logger.js';
-import { ProgramOptions } from './types.js';
-import { detectBlackBoundariesWithMagick } from './analyzer/blackBoundaries.js';
+import { ProgramOptions, BoundaryCandidate, BoundaryDetectionResult, ReviewDecision, TrimSource } from './types.js';
+import { detectBlackBoundariesWithMagick, detectProgrammeBreaks, shouldRefine } from './analyzer/blackBoundaries.js';
+import { refineCut } from './analyzer/refine.js';
+import { buildAnalysisReport, writeAnalysisReport, type ReportCut } from './report.js';
+import type { AnalysisTimeline } from './analyzer/detectors/types.js';
+import { extractFramePng, writeCutPreviews } from './preview.js';
+import { kittyImage, reviewTrim, supportsKittyGraphics } from './ui/review.js';
+import { analysisParamsHash, fileIdentity, profileFilesDigest, type FileIdentity } from './analyzer/cache.js';
+import { catalogueDigest, loadCatalogue } from './analyzer/catalogue.js';
+import { planProgrammeSegments, type ScheduleSlot } from './analyzer/split.js';
+import { expectedBoundaries, padScheduleBoundaries, type ScheduleBoundaries } from './analyzer/schedule.js';
 import { formatTime, askQuestion, sanitizeFilename, getBestEncodingSettings, formatCommand, stripNHKTimestampSuffix } from './utils.js';
 import { parseNfo } from './metadata/parseNfo.js';
 import { login, searchSeries } from './metadata/tvdbClient.js';
@@ -17,12 +27,38 @@ import { fetchEpgForDate } from './metadata/nhkEpgClient.js';
 import { findEpgMatch } from './metadata/epgMatcher.js';
 import type { NfoData, EpisodeMetadata, MetadataInfo, ResolvedSeries } from './metadata/types.js';
 import { DatabaseService } from './database.js';
+import { findIntro, fingerprintOpening, MAX_INTRO_REFERENCES } from './analyzer/intro.js';
+import type { AudioFingerprint } from './analyzer/fingerprint.js';
+import { introChapters, writeChapters } from './chapters.js';
+import { writeMarkers } from './markers.js';
+import { loadRecordingOverrides, validateSidecarTrim, type RecordingOverrides } from './sidecar.js';
+import { probeMedia, probeKeyframes, selectAudioStream, type MediaProbe } from './mediaProbe.js';
+import { planCut, type CutPlan } from './cutPlan.js';
+
+/**
+ * Result of a metadata lookup for one programme.
+ */
+type MetadataOutcome =
+    | { status: 'resolved'; metaInfo: MetadataInfo; resolved: ResolvedSeries }
+    | { status: 'skipped'; reason: 'blacklist' | 'no-keys' | 'sidecar' }
+    /** Series or episode could not be matched. */
+    | { status: 'failed' }
+    /** Already in the history DB or processed earlier in this session. */
+    | { status: 'duplicate' };
 
 export class TVHeadEndTrimmer {
     private options: ProgramOptions;
     private logger: Logger;
     private processedEpisodeIds: Set<string>;
     private dbService?: DatabaseService;
+    /** Recordings whose boundaries fell below --min-confidence. */
+    private reviewFiles = new Set<string>();
+    /** Recordings trimmed (partly) from the EPG schedule rather than analysis. */
+    private scheduleFiles = new Set<string>();
+    /** Recordings skipped in an interactive review (now or in an earlier run). */
+    private skippedFiles = new Set<string>();
+    /** EPG-derived expected boundaries per recording (null when none could be found). */
+    private scheduleSlots = new Map<string, ScheduleBoundaries | null>();
 
     private readonly ffmpegLogTailChars = 24_000;
 
@@ -36,7 +72,10 @@ export class TVHeadEndTrimmer {
             quiet: options.quiet
         });
         this.processedEpisodeIds = new Set<string>();
-        if (options.metadata && options.historyDb) {
+        // The history DB also holds the analysis cache and review decisions. It is only created for
+        // the features that write to it; an existing one is always opened so they keep applying.
+        const needsHistory = options.metadata || options.review || options.introChapters;
+        if (options.historyDb && (needsHistory || fsSync.existsSync(options.historyDb))) {
             this.dbService = new DatabaseService(options.historyDb, this.logger);
         }
     }
@@ -92,34 +131,179 @@ export class TVHeadEndTrimmer {
         return (hours * 3600) + (minutes * 60) + seconds;
     }
 
+    /**
+     * Deinterlace only when the probe reports interlaced (or unknown) field order.
+     * Prefers GPU deinterlacing when using CUDA/NVDEC + NVENC.
+     */
+    private buildVideoFilter(probe: MediaProbe, useCuda: boolean): string {
+        const interlaced = probe.video?.interlaced ?? true;
+        if (useCuda) {
+            return interlaced
+                ? 'bwdif_cuda=mode=0:parity=auto,hwdownload,format=nv12,format=yuv420p'
+                : 'hwdownload,format=nv12,format=yuv420p';
+        }
+        return interlaced ? 'bwdif=mode=0:parity=auto,format=yuv420p' : 'format=yuv420p';
+    }
+
+    /**
+     * Map the audio stream to keep: AC-3 is preferred over MP2 when copying, while encoding
+     * uses the first audio stream. Falls back to the first audio stream if none match.
+     */
+    private audioMapFor(probe: MediaProbe): string {
+        const preferred = this.options.audioCopy ? ['ac3', 'eac3'] : [];
+        const stream = selectAudioStream(probe, preferred);
+        return stream ? `0:${stream.index}` : '0:a:0';
+    }
+
+    /**
+     * Run one ffmpeg command to completion, rejecting with the formatted failure details.
+     */
+    private runFfmpeg(args: string[], label: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const cmd = formatCommand('ffmpeg', args);
+            let stderr = '';
+            const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+            proc.stderr.on('data', (chunk: Buffer) => { stderr = this.appendTail(stderr, chunk.toString(), this.ffmpegLogTailChars); });
+            proc.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+                if (code === 0) return resolve();
+                const details = this.formatFfmpegFailure({ label, code, signal, stderr, command: cmd });
+                reject(this.makeFfmpegError('ffmpeg failed', details));
+            });
+            proc.on('error', reject);
+        });
+    }
+
+    /**
+     * Encoder settings for the re-encoded edges of a smart cut. The parts are joined with
+     * stream copy, so they must use the recording's own codec; null when it has no encoder here.
+     */
+    private smartCutEncoderArgs(probe: MediaProbe): string[] | null {
+        const codec = probe.streams.find(s => s.type === 'video')?.codec;
+        const interlaced = probe.video?.interlaced ? ['-flags', '+ilme+ildct', '-top', '1'] : [];
+        switch (codec) {
+            case 'mpeg2video':
+                return ['-c:v', 'mpeg2video', '-q:v', '2', ...interlaced];
+            case 'h264':
+                return ['-c:v', 'libx264', '-preset', 'fast', '-crf', '16', ...interlaced];
+            case 'hevc':
+                return ['-c:v', 'libx265', '-preset', 'fast', '-crf', '16'];
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Plan a stream-copy trim for the selected --cut-mode, degrading to a plain copy when the
+     * keyframes cannot be read or the codec cannot be smart-cut.
+     */
+    private async planTrim(inputFile: string, startTime: number, endTime: number): Promise<{ plan: CutPlan; probe: MediaProbe }> {
+        const probe = await probeMedia(inputFile, this.logger);
+        const mode = this.options.cutMode;
+        if (mode === 'copy') return { plan: planCut([], startTime, endTime, 'copy', 0), probe };
+        if (mode === 'smart' && !this.smartCutEncoderArgs(probe)) {
+            this.logger.warning(`[CUT] Cannot smart-cut ${probe.streams.find(s => s.type === 'video')?.codec ?? 'this'} video; falling back to keyframe cut`);
+        }
+        let keyframes: number[];
+        try {
+            keyframes = await probeKeyframes(inputFile, this.logger);
+        } catch (err) {
+            this.logger.warning(`[CUT] Could not read keyframes; falling back to plain copy: ${err}`);
+            return { plan: planCut([], startTime, endTime, 'copy', 0), probe };
+        }
+        const effectiveMode = mode === 'smart' && !this.smartCutEncoderArgs(probe) ? 'keyframe' : mode;
+        const frameRate = probe.video?.frameRate || 25;
+        const plan = planCut(keyframes, startTime, endTime, effectiveMode, 0.5 / frameRate);
+        if (plan.mode === 'copy') {
+            this.logger.warning('[CUT] No keyframe inside the programme; falling back to plain copy');
+        } else if (plan.mode === 'keyframe' && plan.start !== startTime) {
+            this.logger.info(`[CUT] Start snapped to keyframe at ${plan.start.toFixed(3)}s (+${(plan.start - startTime).toFixed(3)}s)`);
+        } else if (plan.mode === 'smart') {
+            const reencoded = plan.segments.filter(s => s.reencode).reduce((sum, s) => sum + s.end - s.start, 0);
+            this.logger.info(`[CUT] Smart cut: re-encoding ${reencoded.toFixed(2)}s at the edges, copying the rest`);
+        }
+        return { plan, probe };
+    }
+
     private async executeTrimCommand(
         inputFile: string,
         startTime: number,
         endTime: number,
         outputFile: string,
+        confirmed = false,
     ): Promise<boolean> {
-        // Round up start time to nearest second to avoid catching commercial frames
-        const roundedStartTime = Math.ceil(startTime);
-        const duration = endTime - roundedStartTime;
+        let plan: CutPlan;
+        let probe: MediaProbe;
+        try {
+            ({ plan, probe } = await this.planTrim(inputFile, startTime, endTime));
+        } catch (error) {
+            this.logger.error(`Error during trimming: ${error}`);
+            return false;
+        }
+        const duration = plan.end - plan.start;
         const durationMin = Math.round((duration / 60) * 10) / 10;
 
-        this.logger.info('\nTrim Command:');
-        this.logger.info(
-            colors.onSurface(
-                `ffmpeg -i "${inputFile}" -ss ${roundedStartTime} -to ${endTime} -c copy "${outputFile}"`,
-            ),
-        );
+        // Smart cuts write each part to a temp dir and join them with the concat demuxer
+        const tmpDir = path.join(os.tmpdir(), `nhk_cut_${Date.now()}_${Math.random().toString(36).slice(2)}`);
+        const steps: { label: string; args: string[] }[] = [];
+        let concatList: string | null = null;
+        if (plan.mode === 'smart') {
+            const encoderArgs = this.smartCutEncoderArgs(probe) ?? [];
+            const parts = plan.segments.map((segment, i) => {
+                const part = path.join(tmpDir, `part_${i}.ts`);
+                steps.push({
+                    label: segment.reencode ? 'Smart cut (re-encode edge)' : 'Smart cut (copy)',
+                    args: [
+                        '-hide_banner', '-loglevel', 'error',
+                        '-ss', segment.start.toString(),
+                        '-i', inputFile,
+                        '-t', (segment.end - segment.start).toString(),
+                        '-map', '0:v:0', '-map', this.audioMapFor(probe),
+                        ...(segment.reencode ? encoderArgs : ['-c:v', 'copy']),
+                        '-c:a', 'copy',
+                        '-f', 'mpegts', part, '-y',
+                    ],
+                });
+                return part;
+            });
+            steps.push({
+                label: 'Smart cut (concat)',
+                args: ['-hide_banner', '-loglevel', 'error', '-f', 'concat', '-safe', '0', '-i', path.join(tmpDir, 'parts.txt'), '-map', '0', '-c', 'copy', outputFile, '-y'],
+            });
+            concatList = parts.map(p => `file '${p.replace(/'/g, "'\\''")}'`).join('\n');
+        } else if (plan.mode === 'keyframe') {
+            // Input seeking onto a keyframe starts the copy on a clean GOP
+            steps.push({
+                label: 'Trim (keyframe copy)',
+                args: ['-ss', plan.start.toString(), '-i', inputFile, '-t', duration.toString(), '-c', 'copy', '-avoid_negative_ts', 'make_zero', outputFile, '-y'],
+            });
+        } else {
+            steps.push({
+                label: 'Trim (copy)',
+                args: ['-i', inputFile, '-ss', plan.start.toString(), '-to', plan.end.toString(), '-c', 'copy', outputFile, '-y'],
+            });
+        }
+
+        this.logger.info(`\nTrim Command${steps.length > 1 ? 's' : ''}:`);
+        steps.forEach(step => this.logger.info(colors.onSurface(formatCommand('ffmpeg', step.args))));
         this.logger.info(colors.muted(`Output duration: ${durationMin} minutes`));
 
+        const cleanup = async () => {
+            if (concatList !== null && !this.options.keepDebug) {
+                await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+            }
+        };
+
         if (this.options.test) {
             this.logger.info(colors.tertiary('TEST MODE: Command not executed'));
             return true;
         }
 
-        if (this.options.yes) {
+        if (confirmed) {
+            this.logger.info(colors.tertiary('Trim confirmed in review'));
+        } else if (this.options.yes) {
             this.logger.info(colors.tertiary('Automatically confirming trim operation'));
         } else {
-            const response = await askQuestion('\nExecute this trim command? (y/N): ');
+            const response = await askQuestion(`\nExecute ${steps.length > 1 ? 'these trim commands' : 'this trim command'}? (y/N): `);
             if (response.toLowerCase() !== 'y') {
                 this.logger.info(colors.tertiary('Trim operation cancelled'));
                 return false;
@@ -129,37 +313,13 @@ export class TVHeadEndTrimmer {
         this.logger.info(colors.tertiary('Executing trim operation…'));
 
         try {
-            const args = [
-                '-i',
-                inputFile,
-                '-ss',
-                roundedStartTime.toString(),
-                '-to',
-                endTime.toString(),
-                '-c',
-                'copy',
-                outputFile,
-                '-y',
-            ];
-
-            await new Promise((resolve, reject) => {
-                const cmd = formatCommand('ffmpeg', args);
-                let stderr = '';
-                const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
-                proc.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
-                proc.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
-                    if (code === 0) return resolve(null);
-                    const details = this.formatFfmpegFailure({
-                        label: 'Trim (copy)',
-                        code,
-                        signal,
-                        stderr,
-                        command: cmd
-                    });
-                    reject(this.makeFfmpegError('ffmpeg failed', details));
-                });
-                proc.on('error', reject);
-            });
+            if (concatList !== null) {
+                await fs.mkdir(tmpDir, { recursive: true });
+                await fs.writeFile(path.join(tmpDir, 'parts.txt'), concatList, 'utf8');
+            }
+            for (const step of steps) {
+                await this.runFfmpeg(step.args, step.label);
+            }
 
             const stats = await fs.stat(outputFile);
             const outputSize = Math.round((stats.size / (1024 * 1024)) * 10) / 10;
@@ -168,6 +328,8 @@ export class TVHeadEndTrimmer {
         } catch (error) {
             this.logger.error(`Error during trimming: ${error}`);
             return false;
+        } finally {
+            await cleanup();
         }
     }
 
@@ -188,7 +350,8 @@ export class TVHeadEndTrimmer {
             encodingSettings.encoder.includes('nvenc');
 
         // Total duration of input for progress calculation
-        const totalDuration = await this.getTotalDuration(inputFile);
+        const probe = await probeMedia(inputFile, this.logger);
+        const totalDuration = probe.duration;
         const ext = format;
         let filename: string;
         let season = '', episode = '';
@@ -235,23 +398,13 @@ export class TVHeadEndTrimmer {
             args.push(...encodingSettings.extraArgs);
         }
 
-        // Prefer GPU deinterlacing when using CUDA/NVDEC + NVENC
-        const deintFilter = useCuda
-            ? 'bwdif_cuda=mode=0:parity=auto,hwdownload,format=nv12,format=yuv420p'
-            : 'bwdif=mode=0:parity=auto,format=yuv420p';
-        args.push('-vf', deintFilter);
+        args.push('-vf', this.buildVideoFilter(probe, useCuda));
         if (audioCopy) {
             args.push('-c:a', 'copy');
         } else {
             args.push('-c:a', 'aac', '-b:a', '192k', '-ac', '2', '-ar', '48000');
         }
-        // Map video and preferred audio stream
-        if (audioCopy) {
-            // Prefer AC-3 audio (stream index 1) over MP2 (stream index 0)
-            args.push('-map', '0:v:0', '-map', '0:a:1', '-movflags', '+faststart');
-        } else {
-            args.push('-map', '0:v:0', '-map', '0:a:0', '-movflags', '+faststart');
-        }
+        args.push('-map', '0:v:0', '-map', this.audioMapFor(probe), '-movflags', '+faststart');
         // Metadata tags if available
         if (metaInfo) {
             args.push('-metadata', `title=${metaInfo.seriesName} - S${season}E${episode} - ${metaInfo.episodeName}`);
@@ -321,10 +474,9 @@ export class TVHeadEndTrimmer {
         inputFile: string,
         startTime: number,
         endTime: number,
-        metaInfo?: MetadataInfo,
-        showYear?: string,
+        outputPath: string,
     ): Promise<boolean> {
-        const { audioCopy, format, hwAccel } = this.options;
+        const { audioCopy, hwAccel } = this.options;
         // Get optimal encoding settings based on hardware and options
         const encodingSettings = await getBestEncodingSettings(this.options);
 
@@ -333,30 +485,10 @@ export class TVHeadEndTrimmer {
             (hwAccel === 'nvenc' || hwAccel === 'auto') &&
             encodingSettings.encoder.includes('nvenc');
 
-        // Round up start time to nearest second
-        const roundedStartTime = Math.ceil(startTime);
-        
+        const probe = await probeMedia(inputFile, this.logger);
+
         // Clip duration for progress
-        const clipDuration = endTime - roundedStartTime;
-        const ext = format;
-        const dir = path.dirname(inputFile);
-        // Build filename from metadata or base name
-        const rawBase = path.parse(inputFile).name;
-        let filename: string;
-        let season = '', episode = '';
-        if (metaInfo) {
-            // Use TVDB series year for filename
-            const year = showYear || '';
-            season = String(metaInfo.season).padStart(2, '0');
-            episode = String(metaInfo.episodeNumber).padStart(2, '0');
-            filename = `${metaInfo.seriesName} (${year}) - S${season}E${episode} - ${metaInfo.episodeName}.${ext}`;
-        } else {
-            // Preserve timestamp in base name for uniqueness
-            const baseName = rawBase;
-            filename = `${baseName}.${ext}`;
-        }
-        const safeName = sanitizeFilename(filename);
-        const outputPath = path.join(this.options.output, safeName);
+        const clipDuration = endTime - startTime;
 
         // Build ffmpeg args with error resilience and accurate seeking
         const args: string[] = [];
@@ -370,7 +502,7 @@ export class TVHeadEndTrimmer {
             '-loglevel', 'level+warning',
             '-stats',
             '-err_detect', 'ignore_err',
-            '-ss', roundedStartTime.toString(),
+            '-ss', startTime.toString(),
             '-i', inputFile,
             '-t', clipDuration.toString(),
             '-avoid_negative_ts', 'make_zero',
@@ -391,23 +523,13 @@ export class TVHeadEndTrimmer {
             args.push(...encodingSettings.extraArgs);
         }
 
-        // Prefer GPU deinterlacing when using CUDA/NVDEC + NVENC
-        const deintFilter = useCuda
-            ? 'bwdif_cuda=mode=0:parity=auto,hwdownload,format=nv12,format=yuv420p'
-            : 'bwdif=mode=0:parity=auto,format=yuv420p';
-        args.push('-vf', deintFilter);
+        args.push('-vf', this.buildVideoFilter(probe, useCuda));
         if (audioCopy) {
             args.push('-c:a', 'copy');
         } else {
             args.push('-c:a', 'aac', '-b:a', '192k', '-ac', '2', '-ar', '48000');
         }
-        // Map video and preferred audio stream
-        if (audioCopy) {
-            // Prefer AC-3 audio (stream index 1) over MP2 (stream index 0)
-            args.push('-map', '0:v:0', '-map', '0:a:1', '-movflags', '+faststart');
-        } else {
-            args.push('-map', '0:v:0', '-map', '0:a:0', '-movflags', '+faststart');
-        }
+        args.push('-map', '0:v:0', '-map', this.audioMapFor(probe), '-movflags', '+faststart');
         args.push(outputPath, '-y');
 
         this.logger.info('\nTrim+Transcode Command:');
@@ -462,32 +584,23 @@ export class TVHeadEndTrimmer {
         }
     }
 
-    private async getTotalDuration(filePath: string): Promise<number> {
-        const args = ['-i', filePath, '-f', 'null', '-'];
-        const output = await new Promise<string>((resolve, reject) => {
-            let stderr = '';
-            const proc = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
-            proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
-            proc.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
-                if (code === 0) return resolve(stderr);
-                const cmd = formatCommand('ffmpeg', args);
-                const details = this.formatFfmpegFailure({
-                    label: 'Duration probe',
-                    code,
-                    signal,
-                    stderr,
-                    command: cmd
-                });
-                reject(this.makeFfmpegError('ffmpeg failed', details));
-            });
-            proc.on('error', reject);
-        });
-        const match = output.match(/Duration: (\d{2}):(\d{2}):(\d{2}\.\d{2})/);
-        if (!match) throw new Error('Could not determine video duration');
-        const hours = parseInt(match[1] ?? '0');
-        const minutes = parseInt(match[2] ?? '0');
-        const seconds = parseFloat(match[3] ?? '0');
-        return hours * 3600 + minutes * 60 + seconds;
+    /**
+     * Output path for a programme: `Series (Year) - SxxEyy - Episode` when metadata matched,
+     * otherwise the recording's base name, with the extension of the selected mode.
+     */
+    private buildOutputPath(baseName: string, metaInfo?: MetadataInfo, showYear?: string): string {
+        const ext = this.options.transcode ? this.options.format : 'ts';
+        let outputFileName: string;
+        if (metaInfo) {
+            const seasonStr = String(metaInfo.season).padStart(2, '0');
+            const episodeStr = String(metaInfo.episodeNumber).padStart(2, '0');
+            outputFileName = `${metaInfo.seriesName} (${showYear || ''}) - S${seasonStr}E${episodeStr} - ${metaInfo.episodeName}.${ext}`;
+        } else {
+            // Preserve timestamp in base name for uniqueness
+            outputFileName = `${baseName}.${ext}`;
+        }
+        // Sanitize the filename to remove illegal characters
+        return path.join(this.options.output, sanitizeFilename(outputFileName));
     }
 
     /**
@@ -545,6 +658,43 @@ export class TVHeadEndTrimmer {
         }
     }
 
+    /**
+     * Expected programme boundaries from the NHK EPG slot matching the recording's NFO,
+     * relative to the recording start. Looked up once per recording.
+     */
+    private async findScheduleSlot(fullPath: string, nfoData: NfoData | undefined, duration: number): Promise<ScheduleBoundaries | null> {
+        const cached = this.scheduleSlots.get(fullPath);
+        if (cached !== undefined) return cached;
+
+        let slot: ScheduleBoundaries | null = null;
+        let nfo = nfoData;
+        if (!nfo) {
+            try {
+                nfo = await parseNfo(fullPath, this.logger);
+            } catch (err) {
+                this.logger.warning(`[SCHEDULE] Cannot use schedule: ${err}`);
+            }
+        }
+        if (nfo && !nfo.recordingStartUTC) {
+            this.logger.warning('[SCHEDULE] NFO has no recording start time; cannot use schedule');
+        } else if (nfo?.recordingStartUTC) {
+            const epgEntries = await fetchEpgForDate(nfo.date, this.logger);
+            const entry = findEpgMatch(nfo, epgEntries, this.logger);
+            if (!entry) {
+                this.logger.warning('[SCHEDULE] No EPG entry matches this recording');
+            } else {
+                slot = expectedBoundaries(nfo.recordingStartUTC, entry, duration);
+                if (slot) {
+                    this.logger.info(`[SCHEDULE] EPG slot "${entry.title}" ${entry.startTime} – ${entry.endTime} is ${formatTime(slot.programStart)} – ${formatTime(slot.programEnd)} into the recording`);
+                } else {
+                    this.logger.warning(`[SCHEDULE] EPG slot ${entry.startTime} – ${entry.endTime} does not overlap the recording`);
+                }
+            }
+        }
+        this.scheduleSlots.set(fullPath, slot);
+        return slot;
+    }
+
     private async maybeDeleteHistoryDuplicate(fullPath: string, metaInfo: MetadataInfo): Promise<void> {
         if (this.options.test || !this.options.deleteDuplicates) {
             return;
@@ -568,211 +718,741 @@ export class TVHeadEndTrimmer {
         await this.deleteRecordingFiles(fullPath);
     }
 
-    private async processRecording(file: {
-        name: string;
-        fullPath: string;
-        size: number;
-    }): Promise<boolean> {
-        this.logger.section(`Processing: ${file.name}`, () => {
-            this.logger.info(`File size: ${this.logger.formatFileSize(file.size)}`);
-        });
-
-        // Metadata lookup (moved before video analysis)
-        let nfoData: NfoData | undefined;
+    /**
+     * Resolve series and episode metadata for one programme: blacklist, hardcoded/TVDB/TMDB
+     * series lookup, episode match by description with NHK EPG and TMDB fallbacks, then the
+     * history and session duplicate checks.
+     *
+     * @param duplicateFile - Recording offered for deletion when the episode is already in the history DB
+     */
+    private async resolveMetadata(nfoData: NfoData, duplicateFile?: string, overrides: RecordingOverrides | null = null): Promise<MetadataOutcome> {
         let resolved: ResolvedSeries | null = null;
         let episodes: EpisodeMetadata[] = [];
         let metaInfo: MetadataInfo | undefined;
         let skipMetadata = false;
-        /** True when neither API key is set and there is no hardcoded TVDB mapping. */
-        let skipMetadataNoKeys = false;
 
-        if (this.options.metadata) {
-            nfoData = await parseNfo(file.fullPath, this.logger);
-            this.logger.info(`[METADATA] Parsed NFO: title="${nfoData.title}", date=${nfoData.date}`);
-            if (nfoData.recordingStartUTC) {
-                this.logger.debug(`[METADATA] Recording start time parsed from NFO: ${nfoData.recordingStartUTC.toISOString()}`);
-            }
-            // Check blacklist patterns (supports '*' wildcards)
-            try {
-                const rawList = await fs.readFile(path.resolve(process.cwd(), 'blacklist.json'), 'utf-8');
-                const blacklist = JSON.parse(rawList) as string[];
-                this.logger.debug(`[METADATA] Blacklist patterns loaded: ${blacklist.join(', ')}`);
-                const title = nfoData.title.trim();
-                for (const pattern of blacklist) {
-                    const patTrim = pattern.trim();
-                    // Build regex: escape all regex meta, then turn '*' into '.*'
-                    const escaped = patTrim.replace(/[-\/\\^$+?.()|[\]{}]/g, '\\$&');
-                    const reStr = escaped.replace(/\*/g, '.*');
-                    const regex = new RegExp(`^${reStr}$`, 'i');
-                    if (regex.test(title)) {
-                        this.logger.warning(`[METADATA] Title "${title}" matches blacklist pattern "${pattern}"; skipping metadata lookup`);
-                        skipMetadata = true;
-                        break;
-                    }
+        // Check blacklist patterns (supports '*' wildcards)
+        try {
+            const rawList = await fs.readFile(path.resolve(process.cwd(), 'blacklist.json'), 'utf-8');
+            const blacklist = JSON.parse(rawList) as string[];
+            this.logger.debug(`[METADATA] Blacklist patterns loaded: ${blacklist.join(', ')}`);
+            const title = nfoData.title.trim();
+            for (const pattern of blacklist) {
+                const patTrim = pattern.trim();
+                // Build regex: escape all regex meta, then turn '*' into '.*'
+                const escaped = patTrim.replace(/[-\/\\^$+?.()|[\]{}]/g, '\\$&');
+                const reStr = escaped.replace(/\*/g, '.*');
+                const regex = new RegExp(`^${reStr}$`, 'i');
+                if (regex.test(title)) {
+                    this.logger.warning(`[METADATA] Title "${title}" matches blacklist pattern "${pattern}"; skipping metadata lookup`);
+                    skipMetadata = true;
+                    break;
                 }
-            } catch {
-                this.logger.debug('[METADATA] No valid blacklist.json found; proceeding with metadata lookup');
             }
-            const hardcodedMapping = getHardcodedMapping(nfoData.title);
-            if (skipMetadata) {
-                this.logger.info('[METADATA] Metadata lookup skipped due to blacklist');
-            } else if (!this.options.tvdbApiKey && !this.options.tmdbApiKey && !hardcodedMapping) {
-                skipMetadataNoKeys = true;
-                this.logger.warning('[METADATA] No TVDB or TMDB API key; skipping metadata lookup');
-            } else {
+        } catch {
+            this.logger.debug('[METADATA] No valid blacklist.json found; proceeding with metadata lookup');
+        }
+        const hardcodedMapping = getHardcodedMapping(nfoData.title);
+        const forcedSeries = overrides?.series;
+        if (overrides?.skipMetadata) {
+            this.logger.info(`[METADATA] Metadata lookup skipped by ${path.basename(overrides.file)}`);
+            return { status: 'skipped', reason: 'sidecar' };
+        } else if (skipMetadata && !forcedSeries) {
+            this.logger.info('[METADATA] Metadata lookup skipped due to blacklist');
+            return { status: 'skipped', reason: 'blacklist' };
+        } else if (!this.options.tvdbApiKey && !this.options.tmdbApiKey && !hardcodedMapping && !forcedSeries) {
+            this.logger.warning('[METADATA] No TVDB or TMDB API key; skipping metadata lookup');
+            return { status: 'skipped', reason: 'no-keys' };
+        } else {
+            if (forcedSeries) {
+                this.logger.info(`[METADATA] Using series from ${path.basename(overrides!.file)}`);
+                resolved = forcedSeries;
+            } else if (hardcodedMapping) {
                 // Hardcoded TVDB mapping (slug scrape; no TVDB API key required)
-                if (hardcodedMapping) {
-                    this.logger.info(`[METADATA] Using hardcoded mapping for "${nfoData.title}"`);
+                this.logger.info(`[METADATA] Using hardcoded mapping for "${nfoData.title}"`);
+                resolved = {
+                    source: 'tvdb',
+                    tvdb_id: hardcodedMapping.tvdb_id,
+                    slug: hardcodedMapping.slug,
+                    name: hardcodedMapping.name,
+                    year: hardcodedMapping.year
+                };
+            } else if (this.options.tvdbApiKey) {
+                this.logger.info('[METADATA] Searching TVDB for series information');
+                const token = await login(this.options.tvdbApiKey, this.options.metadataUserAgent!);
+                this.logger.debug('[METADATA] TVDB login successful');
+                const seriesInfo = await searchSeries(nfoData.title, token, this.options.metadataUserAgent!);
+                if (seriesInfo) {
                     resolved = {
                         source: 'tvdb',
-                        tvdb_id: hardcodedMapping.tvdb_id,
-                        slug: hardcodedMapping.slug,
-                        name: hardcodedMapping.name,
-                        year: hardcodedMapping.year
+                        tvdb_id: seriesInfo.tvdb_id,
+                        slug: seriesInfo.slug,
+                        name: seriesInfo.name,
+                        year: seriesInfo.year
                     };
-                } else if (this.options.tvdbApiKey) {
-                    this.logger.info('[METADATA] Searching TVDB for series information');
-                    const token = await login(this.options.tvdbApiKey, this.options.metadataUserAgent!);
-                    this.logger.debug('[METADATA] TVDB login successful');
-                    const seriesInfo = await searchSeries(nfoData.title, token, this.options.metadataUserAgent!);
-                    if (seriesInfo) {
-                        resolved = {
-                            source: 'tvdb',
-                            tvdb_id: seriesInfo.tvdb_id,
-                            slug: seriesInfo.slug,
-                            name: seriesInfo.name,
-                            year: seriesInfo.year
-                        };
-                    } else {
-                        this.logger.warning(`[METADATA] No TVDB series match for "${nfoData.title}"`);
-                    }
+                } else {
+                    this.logger.warning(`[METADATA] No TVDB series match for "${nfoData.title}"`);
                 }
+            }
 
-                if (!resolved && this.options.tmdbApiKey) {
-                    this.logger.info('[METADATA] Searching TMDB for series information');
-                    const tmdbMatch = await searchTvSeries(
-                        nfoData,
-                        this.options.tmdbApiKey,
-                        this.options.metadataUserAgent!,
-                        this.logger
-                    );
-                    if (tmdbMatch) {
-                        resolved = {
-                            source: 'tmdb',
-                            tmdbSeriesId: tmdbMatch.tmdbSeriesId,
-                            name: tmdbMatch.name,
-                            year: tmdbMatch.year
-                        };
-                    } else {
-                        this.logger.warning(`[METADATA] No TMDB series match for "${nfoData.title}"`);
-                    }
+            if (!resolved && this.options.tmdbApiKey) {
+                this.logger.info('[METADATA] Searching TMDB for series information');
+                const tmdbMatch = await searchTvSeries(
+                    nfoData,
+                    this.options.tmdbApiKey,
+                    this.options.metadataUserAgent!,
+                    this.logger
+                );
+                if (tmdbMatch) {
+                    resolved = {
+                        source: 'tmdb',
+                        tmdbSeriesId: tmdbMatch.tmdbSeriesId,
+                        name: tmdbMatch.name,
+                        year: tmdbMatch.year
+                    };
+                } else {
+                    this.logger.warning(`[METADATA] No TMDB series match for "${nfoData.title}"`);
                 }
+            }
 
-                if (!resolved) {
-                    this.logger.error('[METADATA] Skipping file due to failed metadata lookup (no series match)');
-                    return false;
-                }
+            if (!resolved) {
+                this.logger.error('[METADATA] Skipping file due to failed metadata lookup (no series match)');
+                return { status: 'failed' };
+            }
 
-                const catalogLabel = resolved.source === 'tvdb' ? `TVDB ID: ${resolved.tvdb_id}` : `TMDB ID: ${resolved.tmdbSeriesId}`;
-                this.logger.info(`[METADATA] Found series: ${resolved.name} (${resolved.source}, ${catalogLabel})`);
-                episodes = await loadEpisodesForSeries(resolved, this.options, this.logger);
+            const catalogLabel = resolved.source === 'tvdb' ? `TVDB ID: ${resolved.tvdb_id}` : `TMDB ID: ${resolved.tmdbSeriesId}`;
+            this.logger.info(`[METADATA] Found series: ${resolved.name} (${resolved.source}, ${catalogLabel})`);
+            episodes = await loadEpisodesForSeries(resolved, this.options, this.logger);
 
+            let epMatch: EpisodeMetadata | null;
+            if (overrides?.episode) {
+                const { season, episode } = overrides.episode;
+                epMatch = episodes.find(e => e.season === season && e.episodeNumber === episode) ?? null;
+                if (!epMatch) {
+                    this.logger.error(`[METADATA] S${season}E${episode} from ${path.basename(overrides.file)} is not in the ${resolved.source.toUpperCase()} episode list of ${resolved.name}`);
+                    return { status: 'failed' };
+                }
+            } else {
                 // Primary lookup: by description
                 this.logger.info('[METADATA] Attempting to match episode by description');
-                let epMatch = lookupEpisodeByDescription(episodes, nfoData.description);
-
-                /** EPG episode title for reuse if we retry with TMDB episode list */
-                let epgEpisodeTitle: string | undefined;
+                epMatch = lookupEpisodeByDescription(episodes, nfoData.description);
+            }
 
-                // Fallback lookup: using NHK EPG
-                if (!epMatch) {
-                    this.logger.warning('[METADATA] No episode match by description. Trying NHK EPG fallback...');
-                    const epgEntries = await fetchEpgForDate(nfoData.date, this.logger);
-                    this.logger.debug(`[METADATA] Fetched ${epgEntries.length} EPG entries for fallback lookup.`);
-                    const epgMatch = findEpgMatch(nfoData, epgEntries, this.logger);
-
-                    if (epgMatch) {
-                        this.logger.info(`[METADATA] Found EPG match: Show: "${epgMatch.title}", Episode: "${epgMatch.episodeTitle || '(none)'}".`);
-                        if (epgMatch.episodeTitle) {
-                            epgEpisodeTitle = epgMatch.episodeTitle;
-                            this.logger.info(`[METADATA] Retrying lookup with EPG episode title...`);
-                            epMatch = lookupEpisodeByTitle(episodes, epgMatch.episodeTitle, this.logger);
-                        }
-                    } else {
-                        this.logger.warning('[METADATA] EPG fallback failed to find a match.');
+            /** EPG episode title for reuse if we retry with TMDB episode list */
+            let epgEpisodeTitle: string | undefined;
+
+            // Fallback lookup: using NHK EPG
+            if (!epMatch) {
+                this.logger.warning('[METADATA] No episode match by description. Trying NHK EPG fallback...');
+                const epgEntries = await fetchEpgForDate(nfoData.date, this.logger);
+                this.logger.debug(`[METADATA] Fetched ${epgEntries.length} EPG entries for fallback lookup.`);
+                const epgMatch = findEpgMatch(nfoData, epgEntries, this.logger);
+
+                if (epgMatch) {
+                    this.logger.info(`[METADATA] Found EPG match: Show: "${epgMatch.title}", Episode: "${epgMatch.episodeTitle || '(none)'}".`);
+                    if (epgMatch.episodeTitle) {
+                        epgEpisodeTitle = epgMatch.episodeTitle;
+                        this.logger.info(`[METADATA] Retrying lookup with EPG episode title...`);
+                        epMatch = lookupEpisodeByTitle(episodes, epgMatch.episodeTitle, this.logger);
                     }
+                } else {
+                    this.logger.warning('[METADATA] EPG fallback failed to find a match.');
                 }
+            }
 
-                // TVDB found the series but episode titles/overviews may not match NHK; retry with TMDB episodes
-                if (!epMatch && resolved.source === 'tvdb' && this.options.tmdbApiKey) {
-                    this.logger.info('[METADATA] Episode match failed on TVDB; retrying with TMDB episode list...');
-                    const tmdbMatch = await searchTvSeries(
-                        nfoData,
-                        this.options.tmdbApiKey,
-                        this.options.metadataUserAgent!,
-                        this.logger
-                    );
-                    if (tmdbMatch) {
-                        resolved = {
-                            source: 'tmdb',
-                            tmdbSeriesId: tmdbMatch.tmdbSeriesId,
-                            name: tmdbMatch.name,
-                            year: tmdbMatch.year
-                        };
-                        episodes = await loadEpisodesForSeries(resolved, this.options, this.logger);
-                        this.logger.info('[METADATA] Attempting to match episode by description (TMDB)');
-                        epMatch = lookupEpisodeByDescription(episodes, nfoData.description);
-                        if (!epMatch && epgEpisodeTitle) {
-                            this.logger.info('[METADATA] Retrying EPG episode title against TMDB episode names...');
-                            epMatch = lookupEpisodeByTitle(episodes, epgEpisodeTitle, this.logger);
-                        }
-                    } else {
-                        this.logger.warning('[METADATA] TMDB series search failed; cannot load TMDB episode list.');
+            // TVDB found the series but episode titles/overviews may not match NHK; retry with TMDB episodes
+            if (!epMatch && resolved.source === 'tvdb' && this.options.tmdbApiKey) {
+                this.logger.info('[METADATA] Episode match failed on TVDB; retrying with TMDB episode list...');
+                const tmdbMatch = await searchTvSeries(
+                    nfoData,
+                    this.options.tmdbApiKey,
+                    this.options.metadataUserAgent!,
+                    this.logger
+                );
+                if (tmdbMatch) {
+                    resolved = {
+                        source: 'tmdb',
+                        tmdbSeriesId: tmdbMatch.tmdbSeriesId,
+                        name: tmdbMatch.name,
+                        year: tmdbMatch.year
+                    };
+                    episodes = await loadEpisodesForSeries(resolved, this.options, this.logger);
+                    this.logger.info('[METADATA] Attempting to match episode by description (TMDB)');
+                    epMatch = lookupEpisodeByDescription(episodes, nfoData.description);
+                    if (!epMatch && epgEpisodeTitle) {
+                        this.logger.info('[METADATA] Retrying EPG episode title against TMDB episode names...');
+                        epMatch = lookupEpisodeByTitle(episodes, epgEpisodeTitle, this.logger);
                     }
+                } else {
+                    this.logger.warning('[METADATA] TMDB series search failed; cannot load TMDB episode list.');
                 }
+            }
 
-                const episodeSource = resolved.source === 'tvdb' ? 'tvdb' : 'tmdb';
-
-                if (epMatch) {
-                    this.logger.success(`[METADATA] Matched episode S${epMatch.season}E${epMatch.episodeNumber}: ${epMatch.name}`);
-                    metaInfo = {
-                        seriesName: resolved.name,
-                        season: epMatch.season,
-                        episodeNumber: epMatch.episodeNumber,
-                        episodeName: epMatch.name,
-                        firstAired: epMatch.firstAired,
-                        tvdbId: epMatch.id,
-                        episodeSource,
-                    };
+            const episodeSource = resolved.source === 'tvdb' ? 'tvdb' : 'tmdb';
+
+            if (epMatch) {
+                this.logger.success(`[METADATA] Matched episode S${epMatch.season}E${epMatch.episodeNumber}: ${epMatch.name}`);
+                metaInfo = {
+                    seriesName: resolved.name,
+                    season: epMatch.season,
+                    episodeNumber: epMatch.episodeNumber,
+                    episodeName: epMatch.name,
+                    firstAired: epMatch.firstAired,
+                    tvdbId: epMatch.id,
+                    episodeSource,
+                };
+
+                // Check history database
+                if (this.dbService && await this.dbService.isAlreadyProcessed(metaInfo)) {
+                    this.logger.warning(`[HISTORY] Skipping episode already in history DB: S${metaInfo.season}E${metaInfo.episodeNumber} - ${metaInfo.episodeName}`);
+                    if (duplicateFile) await this.maybeDeleteHistoryDuplicate(duplicateFile, metaInfo);
+                    return { status: 'duplicate' };
+                }
+            } else {
+                this.logger.error(
+                    '[METADATA] No matching episode after description, NHK EPG title, and TMDB fallbacks.'
+                );
+                this.logger.error('[METADATA] Skipping file due to failed episode match');
+                return { status: 'failed' };
+            }
 
-                    // Check history database
-                    if (this.dbService && await this.dbService.isAlreadyProcessed(metaInfo)) {
-                        this.logger.warning(`[HISTORY] Skipping episode already in history DB: S${metaInfo.season}E${metaInfo.episodeNumber} - ${metaInfo.episodeName}`);
-                        await this.maybeDeleteHistoryDuplicate(file.fullPath, metaInfo);
-                        return true; // Mark as successful to avoid failure logs
-                    }
-                } else {
-                    this.logger.error(
-                        '[METADATA] No matching episode after description, NHK EPG title, and TMDB fallbacks.'
-                    );
-                    this.logger.error('[METADATA] Skipping file due to failed episode match');
-                    return false;
+            // Check for duplicates before proceeding
+            const dedupKey = `${episodeSource}:${metaInfo!.tvdbId}`;
+            if (metaInfo && this.processedEpisodeIds.has(dedupKey)) {
+                this.logger.info(`[METADATA] Skipping duplicate episode (already processed in this session): S${metaInfo.season}E${metaInfo.episodeNumber} - ${metaInfo.episodeName}`);
+                return { status: 'duplicate' };
+            }
+            return { status: 'resolved', metaInfo: metaInfo!, resolved };
+        }
+    }
+
+    /**
+     * Run an analysis through the cache in the history DB: the stored result is reused while the
+     * recording and the analysis parameters are unchanged, unless --reanalyze is given.
+     */
+    private async withAnalysisCache<T>(fullPath: string, kind: string, params: unknown, analyse: () => Promise<T>): Promise<T> {
+        if (!this.dbService) return analyse();
+        let identity: FileIdentity | undefined;
+        const paramsHash = analysisParamsHash(kind, params);
+        try {
+            identity = await fileIdentity(fullPath);
+            if (!this.options.reanalyze) {
+                const cached = await this.dbService.getCachedAnalysis(identity, paramsHash);
+                if (cached !== null) {
+                    this.logger.info(colors.muted(`[CACHE] Reusing stored ${kind} analysis (use --reanalyze to run it again)`));
+                    return cached as T;
+                }
+            }
+        } catch (err) {
+            this.logger.warning(`[CACHE] Analysis cache unavailable: ${err}`);
+        }
+
+        const result = await analyse();
+        if (identity) {
+            try {
+                await this.dbService.saveCachedAnalysis(identity, paramsHash, result);
+            } catch (err) {
+                this.logger.warning(`[CACHE] Failed to store analysis: ${err}`);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Write the --report files for one recording; failures only warn, they never stop the trim.
+     */
+    private async writeReport(fullPath: string, duration: number, timelines: AnalysisTimeline[], cuts: ReportCut[], notes: string[]): Promise<void> {
+        if (!this.options.report) return;
+        try {
+            const report = buildAnalysisReport(fullPath, duration, this.options, timelines, cuts, notes);
+            await writeAnalysisReport(this.options.report, report, { csv: this.options.reportCsv, html: this.options.reportHtml }, this.logger);
+        } catch (err) {
+            this.logger.warning(`[REPORT] Failed to write report: ${err}`);
+        }
+    }
+
+    /**
+     * With --preview, write clips and contact sheets around both cuts of one output, named after it.
+     * Written before trimming so they can be checked before confirming; failures only warn.
+     */
+    private async writePreviews(fullPath: string, outputFile: string, start: number, end: number): Promise<void> {
+        if (!this.options.preview) return;
+        const dir = this.options.previewDir ?? path.dirname(outputFile);
+        try {
+            await writeCutPreviews(fullPath, [{ label: 'start', time: start }, { label: 'end', time: end }], dir, path.parse(outputFile).name, this.logger);
+        } catch (err) {
+            this.logger.warning(`[PREVIEW] Failed to write previews: ${err}`);
+        }
+    }
+
+    /**
+     * With --intro-chapters, find the opening this episode shares with earlier outputs of the same
+     * series in the history DB and mark it as an "Intro" chapter. Failures only warn.
+     */
+    private async addIntroChapters(outputFile: string, metaInfo: MetadataInfo): Promise<void> {
+        if (!this.options.introChapters || !this.dbService || this.options.test) return;
+        try {
+            const previous = (await this.dbService.getSeriesOutputs(metaInfo.seriesName, metaInfo))
+                .filter(f => path.resolve(f) !== path.resolve(outputFile) && fsSync.existsSync(f))
+                .slice(0, MAX_INTRO_REFERENCES);
+            if (previous.length === 0) {
+                this.logger.info(`[INTRO] No earlier episodes of ${metaInfo.seriesName} to compare against`);
+                return;
+            }
+            const target = await fingerprintOpening(outputFile, this.logger);
+            const others: AudioFingerprint[] = [];
+            for (const f of previous) others.push(await fingerprintOpening(f, this.logger));
+            const intro = findIntro(target, others);
+            if (!intro) {
+                this.logger.info(`[INTRO] No opening shared with ${previous.length} earlier episode(s)`);
+                return;
+            }
+            const introEnd = intro.startA + intro.duration;
+            this.logger.info(`[INTRO] ${formatTime(intro.startA)} – ${formatTime(introEnd)} (${intro.duration.toFixed(1)}s, similarity ${intro.score.toFixed(2)})`);
+            const { duration } = await probeMedia(outputFile, this.logger);
+            await writeChapters(outputFile, introChapters(intro.startA, introEnd, duration), this.logger);
+        } catch (err) {
+            this.logger.warning(`[INTRO] Failed to add intro chapters: ${err}`);
+        }
+    }
+
+    /**
+     * With --markers, write the cuts as player markers and leave the recording as it is. The
+     * chapter copy is named like the trimmed output would be, as an MKV.
+     */
+    private async writeMarkerFiles(fullPath: string, outputFile: string, start: number, end: number, trimSource: TrimSource): Promise<boolean> {
+        const chaptersFile = path.join(path.dirname(outputFile), `${path.parse(outputFile).name}.mkv`);
+        this.logger.section('Markers', () => {
+            this.logger.keyValue([
+                { key: 'Programme', value: `${formatTime(start)} – ${formatTime(end)}` },
+                { key: 'Formats', value: this.options.markers.join(', ') },
+                { key: 'Source', value: trimSource === 'schedule' ? 'schedule-derived (EPG)' : trimSource, highlight: trimSource !== 'analysis' }
+            ]);
+        });
+        if (this.options.test) {
+            this.logger.info(colors.tertiary('TEST MODE: Markers not written'));
+            return true;
+        }
+        try {
+            const probe = await probeMedia(fullPath, this.logger);
+            const written = await writeMarkers(fullPath, chaptersFile, this.options.markers, start, end, probe, this.logger);
+            written.forEach(f => this.logger.success(`[MARKERS] Wrote ${f}`));
+            return written.length > 0;
+        } catch (err) {
+            this.logger.error(`[MARKERS] Failed to write markers: ${err}`);
+            return false;
+        }
+    }
+
+    /**
+     * Interactive review needs --review, a terminal and no --yes.
+     */
+    private canReview(): boolean {
+        if (!this.options.review || this.options.yes) return false;
+        if (!process.stdin.isTTY) {
+            this.logger.warning('[REVIEW] stdin is not a terminal; falling back to the confirmation prompt');
+            return false;
+        }
+        return true;
+    }
+
+    private async findReviewDecision(fullPath: string): Promise<(ReviewDecision & { decidedAt: string }) | null> {
+        if (!this.dbService) return null;
+        try {
+            return await this.dbService.getReviewDecision(await fileIdentity(fullPath));
+        } catch (err) {
+            this.logger.warning(`[REVIEW] Could not read earlier review decisions: ${err}`);
+            return null;
+        }
+    }
+
+    /**
+     * Run the review screen for one recording and remember the decision in the history DB.
+     */
+    private async reviewCuts(
+        file: { name: string; fullPath: string },
+        duration: number,
+        result: BoundaryDetectionResult,
+        stored: (ReviewDecision & { decidedAt: string }) | null
+    ): Promise<ReviewDecision> {
+        const probe = await probeMedia(file.fullPath, this.logger);
+        const notes: string[] = [];
+        if (stored) {
+            notes.push(stored.action === 'skip' ? `Skipped in an earlier review (${stored.decidedAt})` : `Cuts accepted in an earlier review (${stored.decidedAt})`);
+        }
+        if (result.programStart === null || result.programEnd === null) {
+            notes.push('No boundary was detected; set the cuts by hand');
+        } else if (!stored && result.confidence < this.options.minConfidence) {
+            notes.push(`Low confidence ${result.confidence.toFixed(2)} (below --min-confidence ${this.options.minConfidence})`);
+        }
+
+        const decision = await reviewTrim({
+            fileName: file.name,
+            start: result.programStart ?? 0,
+            end: result.programEnd ?? duration,
+            startCandidates: result.startCandidates,
+            endCandidates: result.endCandidates,
+            frameDuration: 1 / (probe.video?.frameRate || 25),
+            duration,
+            notes,
+            showFrame: (time) => this.showFrame(file.fullPath, time),
+        });
+
+        if (this.dbService) {
+            try {
+                await this.dbService.saveReviewDecision(await fileIdentity(file.fullPath), decision);
+            } catch (err) {
+                this.logger.warning(`[REVIEW] Failed to store the decision: ${err}`);
+            }
+        } else {
+            this.logger.warning('[REVIEW] No history DB; the decision will not be remembered');
+        }
+        return decision;
+    }
+
+    /**
+     * Show one frame during review: inline on terminals with kitty graphics, otherwise
+     * written to a temp PNG and opened with --review-viewer (or the desktop default).
+     */
+    private async showFrame(fullPath: string, time: number): Promise<{ message: string; inline?: string }> {
+        const png = await extractFramePng(fullPath, time, 640, this.logger);
+        if (!png) return { message: colors.error(`Could not extract the frame at ${formatTime(time)}`) };
+        if (supportsKittyGraphics()) {
+            return { message: `Frame at ${formatTime(time)}`, inline: kittyImage(png) };
+        }
+        const framePath = path.join(os.tmpdir(), `nhk_review_${process.pid}.png`);
+        await fs.writeFile(framePath, png);
+        const viewer = this.options.reviewViewer || (process.platform === 'darwin' ? 'open' : 'xdg-open');
+        spawn(viewer, [framePath], { stdio: 'ignore', detached: true }).on('error', () => { }).unref();
+        return { message: `Frame at ${formatTime(time)} opened with ${viewer} (${framePath})` };
+    }
+
+    /**
+     * EPG slots that fall mostly inside the recording, in time order.
+     */
+    private async findScheduleSlots(nfoData: NfoData, duration: number): Promise<ScheduleSlot[]> {
+        if (!nfoData.recordingStartUTC) {
+            this.logger.warning('[SPLIT] NFO has no recording start time; splitting on detected breaks only');
+            return [];
+        }
+        const epgEntries = await fetchEpgForDate(nfoData.date, this.logger);
+        const seen = new Set<string>();
+        const slots: ScheduleSlot[] = [];
+        for (const entry of epgEntries) {
+            if (seen.has(entry.airingId)) continue;
+            seen.add(entry.airingId);
+            const expected = expectedBoundaries(nfoData.recordingStartUTC, entry, duration);
+            if (!expected) continue;
+            // Ignore slots only partly recorded (e.g. the tail of the previous programme)
+            const overlap = Math.min(duration, expected.programEnd) - Math.max(0, expected.programStart);
+            if (overlap < (expected.programEnd - expected.programStart) / 2) continue;
+            slots.push({ entry, expected });
+        }
+        return slots.sort((a, b) => a.expected.programStart - b.expected.programStart);
+    }
+
+    /**
+     * --split: find every internal break, cross-check the breaks against the EPG slots inside
+     * the recording and trim each programme to its own, separately matched output. Sidecar trim
+     * points, series and episode describe a single programme, so they do not apply here.
+     */
+    private async processSplitRecording(file: { name: string; fullPath: string; size: number }, overrides: RecordingOverrides | null = null): Promise<boolean> {
+        if (overrides && (overrides.trimStart !== undefined || overrides.trimEnd !== undefined)) {
+            this.logger.error(`\nSkipping: ${path.basename(overrides.file)} sets trim points, which --split cannot apply; remove them or run without --split`);
+            return false;
+        }
+        if (overrides && (overrides.series || overrides.episode)) {
+            const ignored = [overrides.series && 'series', overrides.episode && 'episode'].filter(Boolean);
+            this.logger.warning(`[SIDECAR] ${ignored.join(', ')} in ${path.basename(overrides.file)} name a single programme and are ignored with --split`);
+        }
+        const skipMetadata = overrides?.skipMetadata ?? false;
+        if (skipMetadata && this.options.metadata) {
+            this.logger.info(`[METADATA] Metadata lookup skipped by ${path.basename(overrides!.file)}`);
+        }
+        // A skip from an earlier review still holds; accepted cuts are a single trim and cannot place several programmes
+        const stored = await this.findReviewDecision(file.fullPath);
+        if (stored?.action === 'skip') {
+            this.logger.info(`[REVIEW] Skipped in review on ${stored.decidedAt}; run without --split and with --review to revisit`);
+            this.skippedFiles.add(file.fullPath);
+            return false;
+        }
+        if (stored?.action === 'accept') {
+            this.logger.warning(`[REVIEW] Cuts accepted in review on ${stored.decidedAt} are a single trim and are ignored with --split`);
+        }
+        const totalDuration = (await probeMedia(file.fullPath, this.logger)).duration;
+        let nfoData: NfoData | undefined;
+        try {
+            nfoData = await parseNfo(file.fullPath, this.logger);
+        } catch (err) {
+            this.logger.warning(`[SPLIT] ${err}; splitting on detected breaks only`);
+        }
+        const slots = nfoData ? await this.findScheduleSlots(nfoData, totalDuration) : [];
+        if (slots.length > 0) {
+            this.logger.info(`[SPLIT] EPG lists ${slots.length} programme(s) in this recording: ${slots.map(s => `"${s.entry.title}"`).join(', ')}`);
+        }
+
+        const scan = await this.withAnalysisCache(
+            file.fullPath,
+            'breaks',
+            {
+                profile: this.options.analysisProfile,
+                files: await profileFilesDigest(this.options.analysisProfile),
+                catalogue: catalogueDigest(await loadCatalogue(this.options.catalogue)),
+            },
+            () => detectProgrammeBreaks(file.fullPath, this.options, this.logger),
+        );
+        const breaks = scan.breaks.filter(c => c.valid);
+        this.logger.info(`[SPLIT] Found ${breaks.length} black+silence break(s)`);
+        const plan = planProgrammeSegments(breaks, slots, totalDuration, this.options);
+        plan.unmatched.forEach(entry => this.logger.warning(`[SPLIT] No breaks near the EPG slot of "${entry.title}" (${entry.startTime}); skipping it`));
+        if (shouldRefine(this.options)) {
+            for (const segment of plan.segments) {
+                if (segment.startBreak) segment.start = await refineCut(file.fullPath, segment.startBreak, 'start', this.options, this.logger) ?? segment.start;
+                if (segment.endBreak) segment.end = await refineCut(file.fullPath, segment.endBreak, 'end', this.options, this.logger) ?? segment.end;
+            }
+        }
+        await this.writeReport(file.fullPath, totalDuration, [scan.timeline], plan.segments.map((segment) => {
+            const cut: ReportCut = { start: segment.start, end: segment.end, confidence: segment.confidence, source: segment.source };
+            if (segment.entry) cut.title = segment.entry.title;
+            return cut;
+        }), plan.unmatched.map(entry => `No breaks near the EPG slot of "${entry.title}" (${entry.startTime})`));
+        if (plan.segments.length === 0) {
+            this.logger.error('\nSkipping: No programmes could be placed in this recording');
+            return false;
+        }
+
+        this.logger.section('Programmes', () => {
+            this.logger.table(plan.segments.map((seg, i) => [
+                String(i + 1),
+                seg.entry?.title ?? '(unknown)',
+                formatTime(seg.start),
+                formatTime(seg.end),
+                seg.source === 'schedule' ? 'schedule-derived' : seg.confidence.toFixed(2),
+            ]), ['#', 'EPG Title', 'Start', 'End', 'Confidence'], 'Split Plan');
+        });
+
+        const rawBase = path.parse(file.name).name;
+        let allSucceeded = true;
+        for (const [i, segment] of plan.segments.entries()) {
+            const label = `${String(i + 1).padStart(2, '0')}${segment.entry ? ` - ${segment.entry.title}` : ''}`;
+            this.logger.section(`Programme ${label}`, () => {
+                this.logger.info(`${formatTime(segment.start)} – ${formatTime(segment.end)}`);
+            });
+
+            let metaInfo: MetadataInfo | undefined;
+            let resolved: ResolvedSeries | undefined;
+            if (this.options.metadata && !skipMetadata && segment.entry && nfoData) {
+                // Match each programme on its own EPG slot rather than the recording's NFO
+                const partNfo: NfoData = {
+                    title: segment.entry.title,
+                    date: nfoData.date,
+                    description: segment.entry.description,
+                    recordingStartUTC: new Date(segment.entry.startTime),
+                };
+                const outcome = await this.resolveMetadata(partNfo);
+                if (outcome.status === 'failed') {
+                    allSucceeded = false;
+                    continue;
                 }
+                if (outcome.status === 'duplicate') continue;
+                if (outcome.status === 'resolved') {
+                    metaInfo = outcome.metaInfo;
+                    resolved = outcome.resolved;
+                }
+            }
 
-                // Check for duplicates before proceeding
-                const dedupKey = `${episodeSource}:${metaInfo!.tvdbId}`;
-                if (metaInfo && this.processedEpisodeIds.has(dedupKey)) {
-                    this.logger.info(`[METADATA] Skipping duplicate episode (already processed in this session): S${metaInfo.season}E${metaInfo.episodeNumber} - ${metaInfo.episodeName}`);
-                    return true; // Mark as successful to avoid failure logs
+            if (segment.source === 'schedule') {
+                this.scheduleFiles.add(file.fullPath);
+                this.logger.warning('Trim points are schedule-derived from the EPG; check the output for drift');
+            } else if (segment.confidence < this.options.minConfidence) {
+                const message = `Boundary confidence ${segment.confidence.toFixed(2)} is below --min-confidence ${this.options.minConfidence}`;
+                this.reviewFiles.add(file.fullPath);
+                if (this.options.yes) {
+                    this.logger.warning(`${message}; flagged for review, not trimming`);
+                    allSucceeded = false;
+                    continue;
                 }
+                this.logger.alert('warning', 'Low confidence', `${message}. Check the split plan above before confirming.`);
+            }
+
+            const outputFile = this.buildOutputPath(`${rawBase} - ${label}`, metaInfo, resolved?.year);
+            await this.writePreviews(file.fullPath, outputFile, segment.start, segment.end);
+            const success = this.options.transcode
+                ? await this.executeTrimTranscodeCommand(file.fullPath, segment.start, segment.end, outputFile)
+                : await this.executeTrimCommand(file.fullPath, segment.start, segment.end, outputFile);
+            if (!success) {
+                allSucceeded = false;
+                continue;
+            }
+            if (metaInfo) {
+                if (this.dbService) {
+                    try {
+                        await this.dbService.addProcessedFile(metaInfo, segment.source, this.options.test ? null : path.resolve(outputFile));
+                    } catch (err) {
+                        this.logger.warning(`[HISTORY] Failed to add entry to history DB: ${err}`);
+                    }
+                }
+                await this.addIntroChapters(outputFile, metaInfo);
+                this.processedEpisodeIds.add(`${metaInfo.episodeSource || 'tvdb'}:${metaInfo.tvdbId}`);
+            }
+        }
+
+        if (allSucceeded && this.options.deleteOriginal && !this.options.test) {
+            await this.deleteRecordingFiles(file.fullPath);
+        } else if (this.options.deleteOriginal && !this.options.test) {
+            this.logger.warning('Skipping deletion of original files: not every programme was written');
+        }
+        return allSucceeded;
+    }
+
+    private async processRecording(file: {
+        name: string;
+        fullPath: string;
+        size: number;
+    }, overrides: RecordingOverrides | null = null): Promise<boolean> {
+        this.logger.section(`Processing: ${file.name}`, () => {
+            this.logger.info(`File size: ${this.logger.formatFileSize(file.size)}`);
+        });
+
+        if (overrides?.skip) {
+            this.logger.info(`[SIDECAR] Skipped by ${path.basename(overrides.file)}`);
+            this.skippedFiles.add(file.fullPath);
+            return false;
+        }
+
+        if (this.options.split) {
+            return this.processSplitRecording(file, overrides);
+        }
+
+        // Metadata lookup (moved before video analysis)
+        let nfoData: NfoData | undefined;
+        let resolved: ResolvedSeries | null = null;
+        let metaInfo: MetadataInfo | undefined;
+        let skipMetadata = false;
+        /** True when neither API key is set and there is no hardcoded TVDB mapping. */
+        let skipMetadataNoKeys = false;
+
+        if (overrides && !this.options.metadata) {
+            const ignored = [overrides.series && 'series', overrides.episode && 'episode', overrides.skipMetadata && 'skipMetadata'].filter(Boolean);
+            if (ignored.length > 0) {
+                this.logger.warning(`[SIDECAR] ${ignored.join(', ')} in ${path.basename(overrides.file)} only apply with --metadata; ignored`);
+            }
+        }
+
+        if (this.options.metadata) {
+            nfoData = await parseNfo(file.fullPath, this.logger);
+            this.logger.info(`[METADATA] Parsed NFO: title="${nfoData.title}", date=${nfoData.date}`);
+            if (nfoData.recordingStartUTC) {
+                this.logger.debug(`[METADATA] Recording start time parsed from NFO: ${nfoData.recordingStartUTC.toISOString()}`);
+            }
+            const outcome = await this.resolveMetadata(nfoData, file.fullPath, overrides);
+            if (outcome.status === 'failed') return false;
+            // Already processed: mark as successful to avoid failure logs
+            if (outcome.status === 'duplicate') return true;
+            if (outcome.status === 'skipped') {
+                skipMetadata = outcome.reason !== 'no-keys';
+                skipMetadataNoKeys = outcome.reason === 'no-keys';
+            } else {
+                metaInfo = outcome.metaInfo;
+                resolved = outcome.resolved;
             }
         }
 
         // Only reach expensive video analysis if metadata checks passed or were skipped
-        const magickResult = await detectBlackBoundariesWithMagick(file.fullPath, this.options, this.logger);
-        const totalDuration = await this.getTotalDuration(file.fullPath);
+        const totalDuration = (await probeMedia(file.fullPath, this.logger)).duration;
+        if (overrides) validateSidecarTrim(overrides, totalDuration);
+        const sidecarTrim = overrides?.trimStart !== undefined && overrides.trimEnd !== undefined;
+        const expected = this.options.epgWindows && !sidecarTrim ? await this.findScheduleSlot(file.fullPath, nfoData, totalDuration) : null;
+        // With both cuts given in the sidecar there is nothing left to detect
+        const magickResult: BoundaryDetectionResult = sidecarTrim ? {
+            programStart: null,
+            programEnd: null,
+            confidence: 0,
+            needsReview: { start: false, end: false },
+            detectors: [],
+            startCandidates: [],
+            endCandidates: [],
+            notes: [],
+            timelines: [],
+        } : await this.withAnalysisCache(
+            file.fullPath,
+            'boundaries',
+            {
+                profile: this.options.analysisProfile,
+                files: await profileFilesDigest(this.options.analysisProfile),
+                refine: this.options.refine,
+                expected,
+                catalogue: catalogueDigest(await loadCatalogue(this.options.catalogue)),
+            },
+            () => detectBlackBoundariesWithMagick(file.fullPath, this.options, this.logger, expected),
+        );
 
-        if (magickResult.programStart === null || magickResult.programEnd === null) {
+        // Fill missing boundaries from the EPG slot when allowed
+        let trimSource: TrimSource = 'analysis';
+        if ((magickResult.programStart === null || magickResult.programEnd === null) && this.options.scheduleFallback) {
+            const slot = await this.findScheduleSlot(file.fullPath, nfoData, totalDuration);
+            if (slot) {
+                const schedule = padScheduleBoundaries(slot, totalDuration, this.options.schedulePadding);
+                trimSource = 'schedule';
+                if (magickResult.programStart === null) {
+                    magickResult.programStart = schedule.programStart;
+                    magickResult.notes.push(`Start is schedule-derived (EPG slot −${this.options.schedulePadding}s)`);
+                }
+                if (magickResult.programEnd === null) {
+                    magickResult.programEnd = schedule.programEnd;
+                    magickResult.notes.push(`End is schedule-derived (EPG slot +${this.options.schedulePadding}s)`);
+                }
+                this.scheduleFiles.add(file.fullPath);
+            }
+        }
+
+        // A decision from an earlier review wins over analysis and the schedule
+        const stored = await this.findReviewDecision(file.fullPath);
+        if (stored?.action === 'skip' && !this.options.review) {
+            this.logger.info(`[REVIEW] Skipped in review on ${stored.decidedAt}; run with --review to revisit`);
+            this.skippedFiles.add(file.fullPath);
+            return false;
+        }
+        if (stored?.action === 'accept') {
+            magickResult.programStart = stored.start;
+            magickResult.programEnd = stored.end;
+            magickResult.notes.push(`Cuts accepted in review on ${stored.decidedAt}`);
+            trimSource = 'review';
+        }
+
+        // Cuts written into the sidecar win over everything else
+        if (overrides && (overrides.trimStart !== undefined || overrides.trimEnd !== undefined)) {
+            const sidecarName = path.basename(overrides.file);
+            if (overrides.trimStart !== undefined) {
+                magickResult.programStart = overrides.trimStart;
+                magickResult.notes.push(`Start set by ${sidecarName}`);
+            }
+            if (overrides.trimEnd !== undefined) {
+                magickResult.programEnd = overrides.trimEnd;
+                magickResult.notes.push(`End set by ${sidecarName}`);
+            }
+            validateSidecarTrim(overrides, totalDuration, magickResult.programStart, magickResult.programEnd);
+            if (sidecarTrim) {
+                trimSource = 'sidecar';
+            } else if (trimSource === 'analysis') {
+                // Only the detected edge is left to judge
+                const [time, candidates] = overrides.trimStart === undefined
+                    ? [magickResult.programStart, magickResult.startCandidates]
+                    : [magickResult.programEnd, magickResult.endCandidates];
+                magickResult.confidence = time === null ? 0 : candidates.find(c => c.time === time)?.confidence ?? magickResult.confidence;
+            }
+        }
+        const interactiveReview = this.canReview();
+
+        await this.writeReport(file.fullPath, totalDuration, magickResult.timelines, [{
+            start: magickResult.programStart,
+            end: magickResult.programEnd,
+            confidence: magickResult.confidence,
+            source: trimSource,
+        }], magickResult.notes);
+
+        // Without boundaries only a reviewer can still place the cuts
+        if ((magickResult.programStart === null || magickResult.programEnd === null) && !interactiveReview) {
             this.logger.error('\nSkipping: No usable Magick-based detection results');
             magickResult.notes.forEach((note) => this.logger.info(colors.muted(`  Note: ${note}`)));
             return false;
@@ -782,37 +1462,65 @@ export class TVHeadEndTrimmer {
             magickResult.notes.forEach((note) => {
                 this.logger.info(note);
             });
+            const candidateRows = (candidates: BoundaryCandidate[]) => candidates.slice(0, 5).map((c, i) => [
+                `${i + 1}${c.valid ? '' : ' (weak)'}`,
+                formatTime(c.time),
+                `${formatTime(c.runStart)}–${formatTime(c.runEnd)}`,
+                ...magickResult.detectors.map(name => `${((c.evidence[name] ?? 0) * 100).toFixed(0)}%`),
+                c.confidence.toFixed(2),
+            ]);
+            const headers = ['#', 'Cut', 'Run', ...magickResult.detectors, 'Confidence'];
+            this.logger.table(candidateRows(magickResult.startCandidates), headers, 'Start Candidates');
+            this.logger.table(candidateRows(magickResult.endCandidates), headers, 'End Candidates');
         });
 
-        // Determine output filename
-        const rawBase = path.parse(file.name).name;
-        // Preserve timestamp in base name for uniqueness
-        const baseName = rawBase;
-        let outputFileName: string;
-        if (this.options.transcode) {
-            // When transcoding, use the appropriate extension
-            if (this.options.metadata && metaInfo) {
-                const showYear = resolved?.year || '';
-                const seasonStr = String(metaInfo.season).padStart(2, '0');
-                const episodeStr = String(metaInfo.episodeNumber).padStart(2, '0');
-                outputFileName = `${metaInfo.seriesName} (${showYear}) - S${seasonStr}E${episodeStr} - ${metaInfo.episodeName}.${this.options.format}`;
-            } else {
-                outputFileName = `${baseName}.${this.options.format}`;
+        // Edges the sidecar set by hand need no review, whatever the analysis thought of them
+        const reviewEdges = (['start', 'end'] as const).filter(edge =>
+            magickResult.needsReview[edge] && (edge === 'start' ? overrides?.trimStart : overrides?.trimEnd) === undefined);
+        // Low-confidence cuts are never made unattended; interactive runs get a warning before confirming.
+        // Schedule-derived trims were explicitly requested with --schedule-fallback and have no detection confidence.
+        if (trimSource === 'review') {
+            this.logger.info('Trim points were accepted in an earlier review');
+        } else if (trimSource === 'sidecar') {
+            this.logger.info('Trim points were set in the sidecar');
+        } else if (trimSource === 'schedule') {
+            this.logger.warning('Trim points are schedule-derived from the EPG; check the output for drift');
+        } else if (magickResult.confidence < this.options.minConfidence || reviewEdges.length > 0) {
+            const message = magickResult.confidence < this.options.minConfidence
+                ? `Boundary confidence ${magickResult.confidence.toFixed(2)} is below --min-confidence ${this.options.minConfidence}`
+                : `The ${reviewEdges.join(' and ')} cut was found only in a widened window or by the secondary detectors`;
+            this.reviewFiles.add(file.fullPath);
+            // Markers are written without a prompt, so only a reviewer can vouch for them
+            const markers = this.options.markers.length > 0;
+            if (this.options.yes || (markers && !interactiveReview)) {
+                this.logger.warning(`${message}; flagged for review, not ${markers ? 'writing markers' : 'trimming'}`);
+                return false;
             }
-        } else {
-            // When only trimming (no transcode), use .ts extension
-            if (this.options.metadata && metaInfo) {
-                const showYear = resolved?.year || '';
-                const seasonStr = String(metaInfo.season).padStart(2, '0');
-                const episodeStr = String(metaInfo.episodeNumber).padStart(2, '0');
-                outputFileName = `${metaInfo.seriesName} (${showYear}) - S${seasonStr}E${episodeStr} - ${metaInfo.episodeName}.ts`;
-            } else {
-                outputFileName = `${baseName}.ts`;
+            this.logger.alert('warning', 'Low confidence', `${message}. Check the candidates above before confirming.`);
+        }
+
+        let confirmed = false;
+        if (interactiveReview) {
+            const analysed = { start: magickResult.programStart, end: magickResult.programEnd };
+            const decision = await this.reviewCuts(file, totalDuration, magickResult, stored);
+            if (decision.action === 'skip') {
+                this.logger.info('[REVIEW] Skipped; the decision is remembered for later runs');
+                this.skippedFiles.add(file.fullPath);
+                return false;
             }
+            magickResult.programStart = decision.start;
+            magickResult.programEnd = decision.end;
+            if (decision.start !== analysed.start || decision.end !== analysed.end) trimSource = 'review';
+            confirmed = true;
+        }
+        if (magickResult.programStart === null || magickResult.programEnd === null) {
+            return false;
+        }
+
+        const outputFile = this.buildOutputPath(path.parse(file.name).name, metaInfo, resolved?.year);
+        if (this.options.markers.length > 0) {
+            return this.writeMarkerFiles(file.fullPath, outputFile, magickResult.programStart, magickResult.programEnd, trimSource);
         }
-        // Sanitize the filename to remove illegal characters
-        const safeName = sanitizeFilename(outputFileName);
-        const outputFile = path.join(this.options.output, safeName);
 
         const beforeDuration = totalDuration;
         const beforeSize = Math.round((file.size / (1024 * 1024)) * 10) / 10;
@@ -821,7 +1529,8 @@ export class TVHeadEndTrimmer {
             this.logger.keyValue([
                 { key: 'Start', value: `${magickResult.programStart || 0}s` },
                 { key: 'End', value: `${magickResult.programEnd || 0}s` },
-                { key: 'Duration', value: this.logger.formatDuration((magickResult.programEnd || 0) - (magickResult.programStart || 0)) }
+                { key: 'Duration', value: this.logger.formatDuration((magickResult.programEnd || 0) - (magickResult.programStart || 0)) },
+                { key: 'Source', value: trimSource === 'schedule' ? 'schedule-derived (EPG)' : trimSource, highlight: trimSource !== 'analysis' }
             ]);
 
             this.logger.table([
@@ -830,6 +1539,8 @@ export class TVHeadEndTrimmer {
             ], ['Start', 'End', 'File Size'], 'File Comparison');
         });
 
+        await this.writePreviews(file.fullPath, outputFile, magickResult.programStart, magickResult.programEnd);
+
         // Track which operations were requested and completed
         const operations = {
             metadata: this.options.metadata,
@@ -849,8 +1560,7 @@ export class TVHeadEndTrimmer {
                 file.fullPath,
                 magickResult.programStart,
                 magickResult.programEnd,
-                metaInfo,
-                resolved?.year,
+                outputFile,
             );
             completedOperations.trimming = success;
             completedOperations.transcoding = success;
@@ -860,6 +1570,7 @@ export class TVHeadEndTrimmer {
                 magickResult.programStart,
                 magickResult.programEnd,
                 outputFile,
+                confirmed,
             );
             completedOperations.trimming = success;
             // If transcoding wasn't requested, consider it "completed"
@@ -869,12 +1580,15 @@ export class TVHeadEndTrimmer {
         // Add to history DB if successful
         if (success && metaInfo && this.dbService) {
             try {
-                await this.dbService.addProcessedFile(metaInfo);
+                await this.dbService.addProcessedFile(metaInfo, trimSource, this.options.test ? null : path.resolve(outputFile));
             } catch (err) {
                 this.logger.warning(`[HISTORY] Failed to add entry to history DB: ${err}`);
             }
         }
-        
+        if (success && metaInfo) {
+            await this.addIntroChapters(outputFile, metaInfo);
+        }
+
         // Check if metadata was successfully completed
         if (this.options.metadata) {
             // Metadata is considered successful if we have nfoData and either:
@@ -1002,14 +1716,22 @@ export class TVHeadEndTrimmer {
             process.exit(1);
         }
 
+        const baseOptions = this.options;
         for (const file of files) {
             try {
-                const success = await this.processRecording(file);
+                const overrides = await loadRecordingOverrides(file.fullPath, this.logger);
+                if (overrides && Object.keys(overrides.encode).length > 0) {
+                    this.options = { ...baseOptions, ...overrides.encode };
+                    this.logger.info(`[SIDECAR] Encode settings: ${Object.entries(overrides.encode).map(([k, v]) => `${k}=${v}`).join(', ')}`);
+                }
+                const success = await this.processRecording(file, overrides);
+                const review = this.reviewFiles.has(file.fullPath);
+                const skipped = this.skippedFiles.has(file.fullPath);
                 summaryRows.push([
                     file.name,
-                    success ? '✅' : '❌',
+                    skipped ? '⏭️ skipped' : review && !success ? '⚠️ review' : success ? (this.scheduleFiles.has(file.fullPath) ? '✅ (schedule)' : '✅') : '❌',
                 ]);
-                if (!success) failedFiles.push(file.name);
+                if (!success && !review && !skipped) failedFiles.push(file.name);
             } catch (err) {
                 this.logger.error(`Failed to process ${file.name}: ${err}`);
                 summaryRows.push([
@@ -1017,6 +1739,8 @@ export class TVHeadEndTrimmer {
                     '❌',
                 ]);
                 failedFiles.push(file.name);
+            } finally {
+                this.options = baseOptions;
             }
         }
 
@@ -1034,6 +1758,11 @@ export class TVHeadEndTrimmer {
                 failedFiles.forEach(f => this.logger.error(`  - ${f}`));
             }
 
+            if (this.reviewFiles.size > 0) {
+                this.logger.warning(`Low-confidence boundaries, review before trimming (${this.reviewFiles.size}):`);
+                this.reviewFiles.forEach(f => this.logger.warning(`  - ${path.basename(f)}`));
+            }
+
             if (this.options.test) {
                 this.logger.warning('Run without --test to perform actual trimming');
             }
@@ -1,9 +1,63 @@
+import type { ChannelProfile } from './analyzer/profiles.js';
+import type { CutMode } from './cutPlan.js';
+import type { MarkerFormat } from './markers.js';
+import type { AnalysisTimeline } from './analyzer/detectors/types.js';
+
 export interface BlackPeriod {
     start: number;
     end: number;
     duration: number;
 }
 
+/**
+ * A possible programme boundary: one run of black frames in an analysis window.
+ * Times are absolute seconds in the recording.
+ */
+export interface BoundaryCandidate {
+    /** Proposed cut point (midpoint of the run's part at the full combined threshold). */
+    time: number;
+    runStart: number;
+    runEnd: number;
+    runFrames: number;
+    /** Mean score of each detector across the run (0-1), keyed by detector name. */
+    evidence: Record<string, number>;
+    /** Mean raw measurement of each detector across the run, e.g. similarity or RMS level. */
+    measurements: Record<string, number>;
+    /** Detector labels at the cut, e.g. the matched reference image. */
+    labels: Record<string, string>;
+    /** Whether the run contains enough consecutive frames at the combined threshold to cut on. */
+    valid: boolean;
+    /** 0-1; flags low-confidence cuts and orders the alternatives. */
+    confidence: number;
+    /** Found only by widening the window or by the secondary pass; never cut without review, whatever its confidence. */
+    needsReview: boolean;
+}
+
+export interface BoundaryDetectionResult {
+    programStart: number | null;
+    programEnd: number | null;
+    /** Confidence of the chosen cut pair (the lower of the two); 0 when either is missing. */
+    confidence: number;
+    /** Whether each chosen cut must be reviewed before trimming (see `BoundaryCandidate.needsReview`). */
+    needsReview: { start: boolean; end: boolean };
+    /** Detectors that contributed evidence. */
+    detectors: string[];
+    /** The chosen cut first, then the alternatives by confidence. */
+    startCandidates: BoundaryCandidate[];
+    endCandidates: BoundaryCandidate[];
+    notes: string[];
+    /** Evidence of the final start and end windows, for reports. */
+    timelines: AnalysisTimeline[];
+}
+
+/** Where the trim points of an output came from. */
+export type TrimSource = 'analysis' | 'schedule' | 'review' | 'sidecar';
+
+/** Outcome of an interactive review (see --review); remembered per recording in the history DB. */
+export type ReviewDecision =
+    | { action: 'accept'; start: number; end: number }
+    | { action: 'skip' };
+
 export interface ProgramOptions {
     input: string;
     file?: string;
@@ -11,13 +65,69 @@ export interface ProgramOptions {
     minBlack: number;
     pixThreshold: number;
     test: boolean;
-    reference: string;
+    /** Channel profile name (built-in or from the config file). */
+    profile?: string;
+    /** JSON config file with custom profiles and overrides. */
+    config?: string;
+    /** Profile overrides; undefined means "use the profile's value". */
+    reference?: string[];
+    mask?: string;
+    logoTemplate?: string;
+    identClip?: string[];
+    similarityThreshold?: number;
+    consecutiveFrames?: number;
+    frameRate?: number;
+    startWindow?: number;
+    endWindow?: number;
+    maxWindow?: number;
+    silenceThreshold?: number;
+    minSilence?: number;
+    /** Detector weights as `name=weight,...` (overrides profile). */
+    detectorWeights?: string;
+    /** Secondary detector weights as `name=weight,...` (overrides profile). */
+    fallbackWeights?: string;
+    /** Resolved analysis parameters, set by the CLI before processing starts. */
+    analysisProfile: ChannelProfile;
     keepDebug: boolean;
-    startWindow: number;
-    endWindow: number;
     verbosity: 'quiet' | 'normal' | 'verbose';
     quiet: boolean;
     yes: boolean;
+    /** Minimum boundary confidence (0-1) for unattended (--yes) trimming. */
+    minConfidence: number;
+    /** Fall back to the EPG slot when analysis finds no boundary. */
+    scheduleFallback: boolean;
+    /** Seconds added on each side of a schedule-derived trim. */
+    schedulePadding: number;
+    /** Centre the analysis windows on the boundaries expected from the EPG. */
+    epgWindows: boolean;
+    /** Snap coarse cuts to the exact black frames at the native frame rate. */
+    refine: boolean;
+    /** How stream-copy trims handle the keyframes at each cut. */
+    cutMode: CutMode;
+    /** Ignore cached analysis results and analyse again. */
+    reanalyze: boolean;
+    /** Directory for per-recording JSON analysis reports. */
+    report?: string;
+    /** Also export the frame timeline of each report as CSV. */
+    reportCsv: boolean;
+    /** Also render each report as a self-contained HTML timeline with cut thumbnails. */
+    reportHtml: boolean;
+    /** Write preview clips and contact sheets around each cut. */
+    preview: boolean;
+    /** Where previews go; next to the output when unset. */
+    previewDir?: string;
+    /** Review each trim decision on an interactive screen instead of the y/N prompt. */
+    review: boolean;
+    /** Command that opens a frame image during review when the terminal cannot show it inline. */
+    reviewViewer?: string;
+    /** Split recordings holding several programmes into one output per programme. */
+    split: boolean;
+    /** Write the boundaries in these formats instead of cutting; empty to trim as usual. */
+    markers: MarkerFormat[];
+    /** Mark the opening shared with earlier episodes of the series as an "Intro" chapter. */
+    introChapters: boolean;
+    /** Perceptual-hash catalogue of promos, idents and programme frames (see `catalogue tag`). */
+    catalogue: string;
     parallelism?: number;
     metadata: boolean;
     tvdbApiKey?: string;
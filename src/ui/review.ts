@@ -0,0 +1,192 @@
+import * as readline from 'readline';
+import { colors } from './styles.js';
+import type { BoundaryCandidate, ReviewDecision } from '../types.js';
+
+export interface ReviewInput {
+    fileName: string;
+    start: number;
+    end: number;
+    startCandidates: BoundaryCandidate[];
+    endCandidates: BoundaryCandidate[];
+    /** Seconds per native video frame, the step of a frame nudge. */
+    frameDuration: number;
+    duration: number;
+    /** Extra lines shown under the title, e.g. a remembered decision or low confidence. */
+    notes: string[];
+    /**
+     * Prepare the frame at `time` for viewing: `inline` is an escape sequence drawn under the
+     * screen (terminal graphics), otherwise the frame was handed to an external viewer.
+     */
+    showFrame: (time: number) => Promise<{ message: string; inline?: string }>;
+}
+
+type Edge = 'start' | 'end';
+
+const CANDIDATES_SHOWN = 5;
+
+function formatSeconds(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    return `${h > 0 ? `${h}:` : ''}${String(m).padStart(2, '0')}:${s.toFixed(3).padStart(6, '0')}`;
+}
+
+function render(input: ReviewInput, cuts: Record<Edge, number>, edge: Edge, status: string): string {
+    const lines: string[] = [];
+    lines.push(colors.primary.bold(`Review: ${input.fileName}`));
+    input.notes.forEach(note => lines.push(colors.tertiary(note)));
+    lines.push('');
+    for (const e of ['start', 'end'] as const) {
+        const selected = e === edge;
+        const candidates = e === 'start' ? input.startCandidates : input.endCandidates;
+        const cursor = cuts[e];
+        const header = `${selected ? '▶' : ' '} ${e === 'start' ? 'Start' : 'End  '} ${formatSeconds(cursor)}`;
+        lines.push(selected ? colors.secondary.bold(header) : colors.onSurface(header));
+        candidates.slice(0, CANDIDATES_SHOWN).forEach((c, i) => {
+            const atCursor = Math.abs(c.time - cursor) < input.frameDuration / 2;
+            const row = `    ${atCursor ? '●' : '○'} ${i + 1}. ${formatSeconds(c.time)}  run ${formatSeconds(c.runStart)}–${formatSeconds(c.runEnd)}  confidence ${c.confidence.toFixed(2)}${c.valid ? '' : ' (weak)'}`;
+            lines.push(atCursor ? colors.onSurface(row) : colors.muted(row));
+        });
+        if (candidates.length === 0) lines.push(colors.muted('    (no candidates)'));
+    }
+    lines.push('');
+    lines.push(colors.muted(`Programme ${formatSeconds(cuts.start)} – ${formatSeconds(cuts.end)} (${((cuts.end - cuts.start) / 60).toFixed(1)} min)`));
+    lines.push(colors.muted('tab switch edge · ←/→ ±1 frame · ↑/↓ ±1 s · n/p next/previous candidate · 1-5 pick candidate'));
+    lines.push(colors.muted('v view frame · enter/a accept · s skip'));
+    if (status) lines.push('', status);
+    return lines.join('\n');
+}
+
+/**
+ * Full-screen keyboard review of one trim decision. Resolves with the accepted cuts or a skip;
+ * Ctrl+C restores the terminal and exits.
+ */
+export function reviewTrim(input: ReviewInput): Promise<ReviewDecision> {
+    const stdin = process.stdin;
+    const cuts: Record<Edge, number> = { start: input.start, end: input.end };
+    let edge: Edge = 'start';
+    let status = '';
+    let busy = false;
+
+    const draw = () => {
+        process.stdout.write('\x1b[2J\x1b[H' + render(input, cuts, edge, status) + '\n');
+    };
+    const clamp = (t: number) => Math.min(input.duration, Math.max(0, t));
+
+    return new Promise((resolve) => {
+        readline.emitKeypressEvents(stdin);
+        const wasRaw = stdin.isRaw;
+        stdin.setRawMode(true);
+        stdin.resume();
+
+        const finish = (decision: ReviewDecision) => {
+            stdin.off('keypress', onKey);
+            stdin.setRawMode(wasRaw);
+            stdin.pause();
+            process.stdout.write('\n');
+            resolve(decision);
+        };
+
+        const pickCandidate = (index: number) => {
+            const candidates = edge === 'start' ? input.startCandidates : input.endCandidates;
+            const candidate = candidates[index];
+            if (candidate) cuts[edge] = candidate.time;
+        };
+
+        const stepCandidate = (direction: 1 | -1) => {
+            const candidates = (edge === 'start' ? input.startCandidates : input.endCandidates).slice(0, CANDIDATES_SHOWN);
+            if (candidates.length === 0) return;
+            const current = candidates.findIndex(c => Math.abs(c.time - cuts[edge]) < input.frameDuration / 2);
+            const next = current < 0 ? 0 : (current + direction + candidates.length) % candidates.length;
+            cuts[edge] = candidates[next]!.time;
+        };
+
+        const onKey = (str: string | undefined, key: { name?: string; ctrl?: boolean } | undefined) => {
+            if (busy) return;
+            const name = key?.name ?? str;
+            if (key?.ctrl && name === 'c') {
+                stdin.setRawMode(wasRaw);
+                process.stdout.write('\n');
+                process.exit(130);
+            }
+            status = '';
+            switch (name) {
+                case 'tab':
+                    edge = edge === 'start' ? 'end' : 'start';
+                    break;
+                case 'left':
+                    cuts[edge] = clamp(cuts[edge] - input.frameDuration);
+                    break;
+                case 'right':
+                    cuts[edge] = clamp(cuts[edge] + input.frameDuration);
+                    break;
+                case 'down':
+                    cuts[edge] = clamp(cuts[edge] - 1);
+                    break;
+                case 'up':
+                    cuts[edge] = clamp(cuts[edge] + 1);
+                    break;
+                case 'n':
+                    stepCandidate(1);
+                    break;
+                case 'p':
+                    stepCandidate(-1);
+                    break;
+                case 'v':
+                    busy = true;
+                    draw();
+                    input.showFrame(cuts[edge]).then((shown) => {
+                        status = shown.message;
+                        draw();
+                        if (shown.inline) process.stdout.write(shown.inline + '\n');
+                    }).catch((err) => {
+                        status = colors.error(`Could not show frame: ${err}`);
+                        draw();
+                    }).finally(() => {
+                        busy = false;
+                    });
+                    return;
+                case 'return':
+                case 'enter':
+                case 'a':
+                    if (cuts.end <= cuts.start) {
+                        status = colors.error('End must be after start');
+                        break;
+                    }
+                    finish({ action: 'accept', start: Math.round(cuts.start * 1000) / 1000, end: Math.round(cuts.end * 1000) / 1000 });
+                    return;
+                case 's':
+                    finish({ action: 'skip' });
+                    return;
+                default:
+                    if (str && /^[1-5]$/.test(str)) pickCandidate(parseInt(str, 10) - 1);
+                    break;
+            }
+            draw();
+        };
+
+        stdin.on('keypress', onKey);
+        draw();
+    });
+}
+
+/**
+ * Whether the terminal understands the kitty graphics protocol.
+ */
+export function supportsKittyGraphics(): boolean {
+    return process.env.TERM === 'xterm-kitty' || !!process.env.KITTY_WINDOW_ID || process.env.TERM_PROGRAM === 'WezTerm' || process.env.TERM_PROGRAM === 'ghostty';
+}
+
+/**
+ * Escape sequence that displays a PNG inline with the kitty graphics protocol.
+ */
+export function kittyImage(png: Buffer): string {
+    const data = png.toString('base64');
+    const chunks: string[] = [];
+    for (let i = 0; i < data.length; i += 4096) {
+        const more = i + 4096 < data.length ? 1 : 0;
+        const control = i === 0 ? `a=T,f=100,m=${more}` : `m=${more}`;
+        chunks.push(`\x1b_G${control};${data.slice(i, i + 4096)}\x1b\\`);
+    }
+    return chunks.join('');
+}
@@ -11,6 +11,19 @@ export function formatTime(seconds: number): string {
     return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Parse a timestamp given as seconds (`70.5`) or `[HH:]MM:SS[.ms]`.
+ */
+export function parseTimestamp(value: string): number {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+    const parts = trimmed.split(':');
+    if (parts.length < 2 || parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) {
+        throw new Error(`Invalid timestamp "${value}". Use seconds or HH:MM:SS`);
+    }
+    return parts.reduce((acc, p) => acc * 60 + parseFloat(p), 0);
+}
+
 export async function askQuestion(question: string): Promise<string> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -27,7 +40,7 @@ export async function askQuestion(question: string): Promise<string> {
 export async function checkDependencies() {
     const deps = [
         { name: 'ffmpeg', args: ['-version'] },
-        { name: 'magick', args: ['-version'] },
+        { name: 'ffprobe', args: ['-version'] },
     ];
     for (const dep of deps) {
         try {